@@ -0,0 +1,345 @@
+/**
+ * Handles drawing of the chart's nodes onto a canvas, used instead of one SVG element per node for
+ * large hierarchies
+ */
+
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+
+type PackNode = d3.HierarchyCircularNode<NodeData>;
+
+// Smallest on-screen radius of a circle that is labelled (in px)
+const MIN_LABEL_RADIUS = 10;
+
+/**
+ * Colours and stroke width of the drawn circles.
+ */
+export interface CanvasNodeStyle {
+  fill: (d: PackNode) => string;
+  stroke: (d: PackNode) => string;
+  // Stroke width of country circles in px, region circles are drawn twice as thick
+  strokeWidth: number;
+  regionFillOpacity: number;
+  countryFillOpacity: number;
+  hoverFillOpacity: number; // Fill opacity of the country under the pointer
+  labelColour: string;
+  highlightColour: string; // Outline of the search matches
+}
+
+/**
+ * Area of the container covered by the pack layout, in px relative to the container.
+ */
+export interface CanvasBounds {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface CircleState {
+  x: number;
+  y: number;
+  r: number;
+}
+
+interface DrawnNode {
+  node: PackNode;
+  from: CircleState;
+  to: CircleState;
+  current: CircleState;
+  exiting: boolean;
+}
+
+export class CanvasRenderer {
+  private canvas: d3.Selection<HTMLCanvasElement, unknown, null, undefined>;
+  private context: CanvasRenderingContext2D;
+  private drawn = new Map<string, DrawnNode>();
+  private timer: d3.Timer | null = null;
+  private pixelRatio = 1;
+  // Size of one unit of the pack layout in px
+  private unit = 1;
+  // Camera view: translation and scale of the pack layout
+  private view = { x: 0, y: 0, k: 1 };
+  private highlightedNames: Set<string> | null = null;
+  private hoveredNode: PackNode | null = null;
+
+  /**
+   * @param container - The chart's container, the canvas is inserted into it
+   * @param before - The element to insert the canvas before, e.g. the SVG element drawn over it
+   * @param style - Colours and stroke width of the circles
+   */
+  constructor(
+    container: HTMLElement,
+    before: Element,
+    private style: CanvasNodeStyle
+  ) {
+    this.canvas = d3
+      .select(container)
+      .insert('canvas', () => before)
+      .attr('class', 'chart-canvas')
+      .attr('aria-hidden', 'true');
+
+    const context = this.canvas.node()?.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported.');
+    }
+    this.context = context;
+  }
+
+  /**
+   * Places the canvas over the area of the pack layout and sizes it for the screen's pixel density.
+   *
+   * @param bounds - Area covered by the pack layout, relative to the container
+   * @param packWidth - Width of the pack layout
+   */
+  public setBounds(bounds: CanvasBounds, packWidth: number): void {
+    this.pixelRatio = window.devicePixelRatio || 1;
+    this.unit = packWidth > 0 ? bounds.width / packWidth : 1;
+
+    this.canvas
+      .style('top', `${bounds.top}px`)
+      .style('left', `${bounds.left}px`)
+      .style('width', `${bounds.width}px`)
+      .style('height', `${bounds.height}px`)
+      .attr('width', Math.round(bounds.width * this.pixelRatio))
+      .attr('height', Math.round(bounds.height * this.pixelRatio));
+
+    this.draw();
+  }
+
+  /**
+   * Sets the camera view and redraws.
+   *
+   * @param x - Horizontal translation of the pack layout
+   * @param y - Vertical translation of the pack layout
+   * @param k - Scale of the pack layout
+   */
+  public setView(x: number, y: number, k: number): void {
+    this.view = { x, y, k };
+    this.draw();
+  }
+
+  public setStyle(style: CanvasNodeStyle): void {
+    this.style = style;
+    this.draw();
+  }
+
+  /**
+   * Highlights the named nodes and dims the others. Nodes containing a highlighted node are not
+   * dimmed.
+   *
+   * @param names - Names of the nodes to highlight, or null to remove the highlight
+   */
+  public setHighlight(names: Set<string> | null): void {
+    this.highlightedNames = names;
+    this.draw();
+  }
+
+  /**
+   * Emphasises the node under the pointer.
+   *
+   * @param node - The hovered node, or null if no node is hovered
+   */
+  public setHovered(node: PackNode | null): void {
+    if (node === this.hoveredNode) return;
+    this.hoveredNode = node;
+    this.draw();
+  }
+
+  /**
+   * Transitions the drawn circles to a new layout. Nodes are matched by key, so that nodes which
+   * stay in the chart move and resize to their new layout, new nodes grow in from their position
+   * and removed nodes shrink out.
+   *
+   * @param nodes - The nodes to draw, in drawing order
+   * @param getKey - Returns the key a node is matched on
+   * @param duration - Duration of the transition in milliseconds
+   */
+  public update(
+    nodes: PackNode[],
+    getKey: (d: PackNode) => string,
+    duration: number
+  ): void {
+    const previous = this.drawn;
+    this.drawn = new Map();
+
+    nodes.forEach((node) => {
+      const key = getKey(node);
+      const existing = previous.get(key);
+      const to = { x: node.x, y: node.y, r: node.r };
+      const from = existing ? { ...existing.current } : { ...to, r: 0 };
+      this.drawn.set(key, {
+        node,
+        from,
+        to,
+        current: { ...from },
+        exiting: false,
+      });
+      previous.delete(key);
+    });
+
+    // Removed nodes are drawn over the remaining ones until they have shrunk out
+    previous.forEach((entry, key) => {
+      const from = { ...entry.current };
+      this.drawn.set(key, {
+        ...entry,
+        from,
+        to: { ...from, r: 0 },
+        current: { ...from },
+        exiting: true,
+      });
+    });
+
+    this.timer?.stop();
+    this.timer = null;
+    if (duration <= 0) {
+      this.step(1);
+      return;
+    }
+
+    this.timer = d3.timer((elapsed) => {
+      const t = Math.min(1, elapsed / duration);
+      this.step(d3.easeCubicInOut(t));
+      if (t === 1) {
+        this.timer?.stop();
+        this.timer = null;
+      }
+    });
+  }
+
+  /**
+   * Removes all drawn nodes.
+   */
+  public clear(): void {
+    this.timer?.stop();
+    this.timer = null;
+    this.drawn.clear();
+    this.hoveredNode = null;
+    this.draw();
+  }
+
+  public destroy(): void {
+    this.clear();
+    this.canvas.remove();
+  }
+
+  /**
+   * Interpolates the circles between their start and end states and redraws. At the end of the
+   * transition, removed nodes are dropped.
+   *
+   * @param t - Eased progress of the transition, from 0 to 1
+   */
+  private step(t: number): void {
+    this.drawn.forEach((entry, key) => {
+      entry.current = {
+        x: entry.from.x + (entry.to.x - entry.from.x) * t,
+        y: entry.from.y + (entry.to.y - entry.from.y) * t,
+        r: entry.from.r + (entry.to.r - entry.from.r) * t,
+      };
+      if (t === 1 && entry.exiting) {
+        this.drawn.delete(key);
+      }
+    });
+    this.draw();
+  }
+
+  /**
+   * Draws all circles and labels at the current camera view. Circles outside of the canvas are
+   * skipped.
+   */
+  private draw(): void {
+    const canvas = this.canvas.node();
+    if (!canvas) return;
+
+    const context = this.context;
+    const scale = this.pixelRatio * this.unit;
+    const width = canvas.width / scale;
+    const height = canvas.height / scale;
+    const { x: translateX, y: translateY, k } = this.view;
+    const fontFamily = getComputedStyle(canvas).fontFamily || 'sans-serif';
+
+    // Draw in units of the pack layout (the SVG's viewBox), with the camera applied per circle
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+
+    const names = this.highlightedNames;
+    const isHighlighted = (d: PackNode) =>
+      names !== null && names.has(d.data.name);
+
+    this.drawn.forEach(({ node, current, exiting }) => {
+      const x = translateX + current.x * k;
+      const y = translateY + current.y * k;
+      const r = current.r * k;
+      if (r <= 0 || x + r < 0 || x - r > width || y + r < 0 || y - r > height) {
+        return;
+      }
+
+      const isRegion = !!node.children;
+      const isHovered = node === this.hoveredNode && !isRegion;
+      const isDimmed =
+        names !== null && !exiting && !node.descendants().some(isHighlighted);
+      const opacity = isDimmed ? 0.15 : 1;
+
+      context.beginPath();
+      context.arc(x, y, r, 0, 2 * Math.PI);
+
+      context.globalAlpha =
+        opacity *
+        (isRegion
+          ? this.style.regionFillOpacity
+          : isHovered
+            ? this.style.hoverFillOpacity
+            : this.style.countryFillOpacity);
+      context.fillStyle = this.style.fill(node);
+      context.fill();
+
+      // Stroke widths are in px, independent of the zoom
+      const strokeWidth =
+        this.style.strokeWidth * (isRegion ? 2 : isHovered ? 3 : 1);
+      context.globalAlpha = opacity;
+      if (isHighlighted(node)) {
+        context.strokeStyle = this.style.highlightColour;
+        context.lineWidth = 2 / this.unit;
+      } else {
+        context.strokeStyle = this.style.stroke(node);
+        context.lineWidth = strokeWidth / this.unit;
+      }
+      context.stroke();
+
+      // Labels are only shown on country nodes large enough to read them
+      if (!isRegion && !exiting && r * this.unit >= MIN_LABEL_RADIUS) {
+        const fontSize = Math.max(8, r / 4);
+        context.font = `${fontSize}px ${fontFamily}`;
+        context.fillStyle = this.style.labelColour;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(fitLabel(context, node.data.name, r * 1.6), x, y);
+      }
+    });
+
+    context.globalAlpha = 1;
+  }
+}
+
+/**
+ * Truncates a label with an ellipsis to fit within a width at the context's current font.
+ *
+ * @param context - The canvas context, with the label's font set
+ * @param text - The label
+ * @param maxWidth - Width available to the label
+ * @returns The label, truncated if needed, or an empty string if not even one letter fits
+ */
+function fitLabel(
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string {
+  if (context.measureText(text).width <= maxWidth) return text;
+
+  for (let length = text.length - 1; length > 0; length--) {
+    const truncated = text.substring(0, length) + '...';
+    if (context.measureText(truncated).width <= maxWidth) return truncated;
+  }
+  return '';
+}
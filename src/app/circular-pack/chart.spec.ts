@@ -0,0 +1,196 @@
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+import { MetricRegistry } from '../utils/metrics';
+import { CircularPackChart } from './chart';
+import { setupCountryClickInteractions } from './interactions';
+
+const data: NodeData = {
+  name: 'Europe',
+  children: [
+    {
+      name: 'Northern Europe',
+      children: [
+        { name: 'Norway', metrics: { landAreaKM2: 365000 } },
+        { name: 'Denmark', metrics: { landAreaKM2: 40000 } },
+      ],
+    },
+    {
+      name: 'Southern Europe',
+      children: [{ name: 'Italy', metrics: { landAreaKM2: 295000 } }],
+    },
+  ],
+};
+
+describe('CircularPackChart with the canvas renderer', () => {
+  let container: HTMLDivElement;
+  let svg: SVGSVGElement;
+  let chart: CircularPackChart;
+
+  /**
+   * Dispatches a mouse event at a point of the pack layout.
+   */
+  function dispatchAt(type: string, d: d3.HierarchyCircularNode<NodeData>) {
+    const point = new DOMPoint(d.x, d.y).matrixTransform(
+      svg.getScreenCTM() ?? undefined
+    );
+    svg.dispatchEvent(
+      new MouseEvent(type, {
+        bubbles: true,
+        clientX: point.x,
+        clientY: point.y,
+      })
+    );
+  }
+
+  function findNode(name: string): d3.HierarchyCircularNode<NodeData> {
+    return chart.getLayout().nodes.find((d) => d.data.name === name)!;
+  }
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.style.position = 'relative';
+    svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.style.width = '600px';
+    svg.style.height = '400px';
+    container.appendChild(svg);
+    document.body.appendChild(container);
+
+    chart = new CircularPackChart(svg, undefined, 'canvas', 'sync');
+    chart.render(data, {
+      width: 600,
+      height: 400,
+      valueKey: 'landAreaKM2',
+      metrics: new MetricRegistry(),
+    });
+  });
+
+  afterEach(() => {
+    chart.destroy();
+    container.remove();
+  });
+
+  it('should draw the nodes on a canvas instead of as SVG elements', () => {
+    const canvas = container.querySelector('canvas.chart-canvas');
+
+    expect(canvas).not.toBeNull();
+    expect(canvas?.nextElementSibling).toBe(svg);
+    expect(svg.querySelectorAll('g.node').length).toBe(0);
+    expect(svg.querySelector('.value-toggle')).not.toBeNull();
+  });
+
+  it('should offer the derived metrics in the size toggle', () => {
+    const labels = Array.from(svg.querySelectorAll('.toggle-label')).map(
+      (label) => label.textContent
+    );
+
+    expect(labels).toEqual(
+      new MetricRegistry().list().map((metric) => metric.label)
+    );
+  });
+
+  it('should resolve clicks to the node under the pointer', () => {
+    const clicked: string[] = [];
+    setupCountryClickInteractions(svg, (country) => clicked.push(country.name));
+
+    dispatchAt('click', findNode('Denmark'));
+    dispatchAt('click', findNode('Italy'));
+
+    expect(clicked).toEqual(['Denmark', 'Italy']);
+  });
+
+  it('should show the tooltip of the hovered node', () => {
+    const tooltip = container.querySelector<HTMLElement>('.tooltip')!;
+
+    dispatchAt('mousemove', findNode('Norway'));
+
+    expect(tooltip.style.visibility).toBe('visible');
+    expect(tooltip.textContent).toContain('Norway');
+  });
+
+  it('should show node names in the tooltip as text, not HTML', () => {
+    const tooltip = container.querySelector<HTMLElement>('.tooltip')!;
+    const name = '<img src=x onerror="alert(1)">';
+    chart.render(
+      {
+        name: 'Europe',
+        children: [
+          {
+            name: 'Northern Europe',
+            children: [{ name, metrics: { landAreaKM2: 365000 } }],
+          },
+        ],
+      },
+      {
+        width: 600,
+        height: 400,
+        valueKey: 'landAreaKM2',
+        metrics: new MetricRegistry(),
+      }
+    );
+
+    dispatchAt('mousemove', findNode(name));
+
+    expect(tooltip.querySelector('img')).toBeNull();
+    expect(tooltip.firstElementChild?.textContent).toBe(name);
+  });
+
+  it('should remove the canvas when destroyed', () => {
+    chart.destroy();
+
+    expect(container.querySelector('canvas')).toBeNull();
+  });
+});
+
+describe('CircularPackChart computing layouts in a worker', () => {
+  let container: HTMLDivElement;
+  let svg: SVGSVGElement;
+  let chart: CircularPackChart;
+
+  const waitForLayout = async (countries: number) => {
+    for (let i = 0; i < 100; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      if (svg.querySelectorAll('g.country-node').length === countries) return;
+    }
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    container.appendChild(svg);
+    document.body.appendChild(container);
+
+    chart = new CircularPackChart(svg, undefined, 'svg', 'worker');
+  });
+
+  afterEach(() => {
+    chart.destroy();
+    container.remove();
+  });
+
+  it('should draw, label and focus the nodes when resized before the first layout', async () => {
+    chart.render(data, {
+      width: 600,
+      height: 400,
+      valueKey: 'landAreaKM2',
+      metrics: new MetricRegistry(),
+    });
+    chart.zoomToRegion('Northern Europe');
+    chart.resize(300, 300);
+    await waitForLayout(3);
+
+    const focused = svg.querySelector<SVGGElement>('g.node.focused');
+    const labels = Array.from(
+      svg.querySelectorAll('g.country-node text'),
+      (label) => label.textContent
+    );
+
+    expect(chart.getLayout().width).toBe(360);
+    expect(focused).not.toBeNull();
+    expect(
+      d3
+        .select<SVGGElement, d3.HierarchyCircularNode<NodeData>>(focused!)
+        .datum().data.name
+    ).toBe('Northern Europe');
+    expect(labels.join(' ')).toContain('Norway');
+  });
+});
@@ -3,91 +3,235 @@
  */
 
 import * as d3 from 'd3';
-import { NodeData } from '../shared/types';
-import { regionColourScale } from '../utils/colours';
-import { addNodeHoverEffects } from './interactions';
+import {
+  ChartTheme,
+  GroupPlacement,
+  MetricDefinition,
+  MetricKey,
+  NodeData,
+} from '../shared/types';
+import { createColourScale } from '../utils/colours';
+import {
+  MAX_COMPARED_COUNTRIES,
+  toComparisonRows,
+} from '../utils/compare-data';
+import { HitTester, createHitTester } from '../utils/hit-test';
+import { MetricRegistry } from '../utils/metrics';
+import { RegionSummary, summariseRegion } from '../utils/region-summary';
+import { LIGHT_THEME } from '../utils/themes';
+import { ColourVision, toColorMatrixValues } from '../utils/colour-vision';
+import { CanvasNodeStyle, CanvasRenderer } from './canvas-renderer';
+import { LayoutType, applyLayout, createHierarchy } from './layout';
+import { LayoutEngine, LayoutMode, createLayoutEngine } from './layout-engine';
+import { drawPatterns, getPatternType } from './patterns';
+import {
+  addCanvasHoverEffects,
+  addNodeHoverEffects,
+  setNodeHitTester,
+} from './interactions';
 
 export interface ChartConfig {
   width: number;
   height: number;
-  valueKey: 'population' | 'landAreaKM2';
+  valueKey: MetricKey;
+  metrics: MetricRegistry;
+  // Where the top-level groups are placed around the centre, evenly spaced when unset. The component
+  // passes EUROPE_GROUP_PLACEMENT unless given another placement.
+  groupPlacement?: GroupPlacement;
+  // Whether the nodes are packed or positioned on a map, packed by default
+  layoutType?: LayoutType;
+  // Duration of the transition to the new layout in milliseconds, e.g. to match a playback step
+  transitionDuration?: number;
 }
 
+/**
+ * How the nodes are drawn: as SVG elements, which can be focused and read by screen readers, or on a
+ * canvas, which scales to hierarchies of many thousands of nodes.
+ */
+export type ChartRenderer = 'svg' | 'canvas';
+
+/**
+ * The computed pack layout: its size and the laid out nodes, root first.
+ */
+export interface ChartLayout {
+  width: number;
+  height: number;
+  nodes: d3.HierarchyCircularNode<NodeData>[];
+}
+
+// Width of each segment in the metric toggle
+const TOGGLE_SEGMENT_WIDTH = 96;
+
+// Durations of the node transitions when the chart is re-rendered or resized (in milliseconds)
+const NODE_TRANSITION_DURATION = 750;
+const RESIZE_TRANSITION_DURATION = 300;
+
+// Radius of the largest mini-circle in each row of the country comparison
+const COMPARISON_CIRCLE_RADIUS = 14;
+
+/**
+ * Camera view of the pack layout: centre x, centre y and the diameter that should fill the chart.
+ */
+type ZoomView = [number, number, number];
+
+// Used to give each chart its own namespace for document-level event listeners
+let chartCount = 0;
+
 export class CircularPackChart {
   private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  private container: d3.Selection<HTMLElement, unknown, null, undefined>;
+  private tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+  private readonly eventNamespace = `drawer-${++chartCount}`;
+  // Prefix of the ids of the chart's patterns and filters, unique to each chart on the page
+  private readonly idPrefix = `chart-${chartCount}`;
   private group: d3.Selection<SVGGElement, unknown, null, undefined> | null =
     null;
   private nodes: d3.HierarchyCircularNode<NodeData>[] = [];
+  // Data of the latest render and its hierarchy, whose layout may still be being computed
+  private data: NodeData | null = null;
+  private root: d3.HierarchyNode<NodeData> | null = null;
+  private layoutEngine: LayoutEngine;
+  // Set when the nodes are drawn on a canvas instead of as SVG elements
+  private canvasRenderer: CanvasRenderer | null = null;
+  private hitTester: HitTester<d3.HierarchyCircularNode<NodeData>> | null =
+    null;
   private colourScale: d3.ScaleOrdinal<string, string>;
+  private theme: ChartTheme = LIGHT_THEME;
+  // Whether country circles are filled with their group's pattern on top of its colour
+  private patternFills = false;
   private toggleGroup:
     | d3.Selection<SVGGElement, unknown, null, undefined>
     | undefined;
   private drawerContainer: d3.Selection<
     HTMLDivElement,
     unknown,
-    HTMLElement,
-    any
+    null,
+    undefined
   > | null = null;
+  // Names of the nodes matching the search, null when not searching
+  private highlightedNames: Set<string> | null = null;
+  private drawerReturnFocus: HTMLElement | SVGElement | null = null;
+  private packWidth = 0;
+  private packHeight = 0;
+  private focusName: string | null = null;
+  // Set while a layout is computed, until then the nodes are those of the previous layout
+  private isLayoutPending = false;
+  private view: ZoomView = [0, 0, 0];
+  private metrics: MetricRegistry = new MetricRegistry();
+  private valueKey: MetricKey = 'landAreaKM2';
+  private groupPlacement: GroupPlacement | undefined;
+  private layoutType: LayoutType = 'pack';
 
-  constructor(svgElement: SVGSVGElement) {
+  /**
+   * @param svgElement - The SVG element to render into. Its parent element holds the chart's
+   * tooltip and drawer, so it should be positioned (e.g. `position: relative`).
+   * @param colourScale - Maps top-level group names to colours
+   * @param renderer - Whether to draw the nodes as SVG elements or on a canvas behind the SVG
+   * @param layout - Whether to compute layouts in a Web Worker or synchronously, e.g. in tests
+   */
+  constructor(
+    svgElement: SVGSVGElement,
+    colourScale: d3.ScaleOrdinal<string, string> = createColourScale(),
+    renderer: ChartRenderer = 'svg',
+    layout: LayoutMode = 'worker'
+  ) {
     this.svg = d3.select(svgElement);
-    this.colourScale = regionColourScale;
+    this.container = d3
+      .select(svgElement.parentElement ?? document.body)
+      .classed('d3-circular-pack', true);
+    this.tooltip = this.container.append('div').attr('class', 'tooltip');
+    this.colourScale = colourScale;
+    this.layoutEngine = createLayoutEngine(layout);
+
+    if (renderer === 'canvas') {
+      this.canvasRenderer = new CanvasRenderer(
+        this.container.node() ?? document.body,
+        svgElement,
+        this.getCanvasStyle(0)
+      );
+
+      // Clicks and hovers on the SVG are resolved to nodes by hit testing the layout
+      const hitTester = (event: MouseEvent) => this.findNodeAt(event);
+      setNodeHitTester(svgElement, hitTester);
+      addCanvasHoverEffects(
+        svgElement,
+        hitTester,
+        this.tooltip,
+        (d) => this.getTooltipText(d),
+        (d) => this.canvasRenderer?.setHovered(d)
+      );
+    }
   }
 
   /**
    * Renders the circular pack chart.
    *
    * @param data - The data to be visualised
-   * @param config - The chart configurations: width, height, current value key (land area or
-   * population)
+   * @param config - The chart configurations: width, height, current value key and the registry of
+   * available metrics
    */
   public render(data: NodeData, config: ChartConfig): void {
-    // Clear any existing chart
-    this.clear();
     const { width, height, valueKey } = config;
+    this.metrics = config.metrics;
+    this.valueKey = valueKey;
+    this.groupPlacement = config.groupPlacement;
+    this.layoutType = config.layoutType ?? 'pack';
+    const duration = config.transitionDuration ?? NODE_TRANSITION_DURATION;
     const rectWidth = Math.min(width, height) * 1.2;
     const rectHeight = Math.min(width, height) * 0.8;
-    const packSize: [number, number] = [rectWidth, rectHeight];
+    this.packWidth = rectWidth;
+    this.packHeight = rectHeight;
 
     // Set the viewbox
     this.svg.attr('viewBox', `0 0 ${rectWidth} ${rectHeight}`);
 
     this.svg.attr('class', 'd3-circular-pack');
 
-    this.svg
-      .append('rect')
-      .attr('x', 0)
-      .attr('y', 0)
-      .attr('width', rectWidth)
-      .attr('height', rectHeight)
-      .attr('rx', 15)
-      .attr('ry', 15)
-      .attr('class', 'svg-viewbox-rect');
+    // The background and main group are kept between renders, so that nodes can transition
+    if (!this.group) {
+      this.svg
+        .append('rect')
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('rx', 15)
+        .attr('ry', 15)
+        .attr('class', 'svg-viewbox-rect');
+
+      // Create main group containing the region circles, exposed as a tree to screen readers. Nodes
+      // drawn on a canvas have no elements, so the group is only described as an image.
+      this.group = this.svg
+        .append('g')
+        .attr('transform', `translate(0, 0)`)
+        .attr('role', this.canvasRenderer ? 'img' : 'tree');
+    }
 
-    // Create hierarchy and pack layout
-    const root = d3
-      .hierarchy<NodeData>(data)
-      .sum((d: any) => d[valueKey] ?? 0)
-      .sort((a, b) => (b.value || 0) - (a.value || 0));
+    this.group.attr('aria-label', data.name);
 
-    const pack = d3
-      .pack<NodeData>()
-      .size(packSize)
-      .padding(Math.max(2, Math.min(packSize[0], packSize[1]) * 0.01));
+    this.svg
+      .select('.svg-viewbox-rect')
+      .attr('width', rectWidth)
+      .attr('height', rectHeight);
 
-    this.nodes = pack(root).descendants();
+    // Create the hierarchy now, its layout is computed by the layout engine
+    this.data = data;
+    this.root = createHierarchy(data, valueKey);
 
-    // Apply custom positioning of the region circles
-    this.positionRegionCircles(packSize[0], packSize[1]);
+    // Zoom back out if the focused region is gone, so that the focus is known before the layout
+    if (this.focusName !== null && !this.findRegion(this.focusName)) {
+      this.focusName = null;
+    }
 
-    // Create main group containing the region circles
-    this.group = this.svg.append('g').attr('transform', `translate(0, 0)`);
+    this.requestLayout(() => {
+      // Draw all the child nodes (region circles + country leaf nodes)
+      this.drawNodes(this.packWidth, this.packHeight, duration);
 
-    // Draw all the child nodes (region circles + country leaf nodes)
-    this.drawNodes(packSize[0], packSize[1]);
+      // Restore the zoom focus (if any), following the focused region to its new position
+      this.refitLabels();
+      this.zoomTo(this.getFocusNode(), true);
+    });
 
-    // Add the toggle for land area/population
-    this.createToggle();
+    // Add the toggle for the registered metrics
+    this.createToggle(this.metrics.list());
 
     // Update the initial state of the toggle based on valueKey setting
     this.updateToggleState(config.valueKey);
@@ -100,178 +244,349 @@ export class CircularPackChart {
    * @param height - Chart height
    */
   public resize(width: number, height: number): void {
-    const size = Math.min(width, height);
     const rectWidth = Math.min(width, height) * 1.2;
     const rectHeight = Math.min(width, height) * 0.8;
+    this.packWidth = rectWidth;
+    this.packHeight = rectHeight;
 
     // Update SVG viewBox
     this.svg.attr('viewBox', `0 0 ${rectWidth} ${rectHeight}`);
+    this.svg
+      .select('.svg-viewbox-rect')
+      .attr('width', rectWidth)
+      .attr('height', rectHeight);
+
+    if (!this.group || !this.root) return;
+
+    // Update the pack layout, superseding any layout still being computed for an earlier size
+    this.requestLayout(() => {
+      // Update node positions and sizes
+      this.drawNodes(
+        this.packWidth,
+        this.packHeight,
+        RESIZE_TRANSITION_DURATION
+      );
+      this.refitLabels();
+
+      // Re-apply the zoom focus to the updated layout
+      this.zoomTo(this.getFocusNode(), false);
+
+      // Update the side drawer dimensions (relevant if drawer is open)
+      this.updateDrawerDimensions();
+    });
+  }
+
+  /**
+   * Animates the camera so the named region fills the chart. Passing null, or the name of a region
+   * not in the data, zooms back out to the whole chart. While a layout is computed, the camera moves
+   * once the layout is ready.
+   *
+   * @param regionName - Name of the region to focus, or null for the root view
+   */
+  public zoomToRegion(regionName: string | null): void {
+    this.focusName =
+      regionName !== null && this.findRegion(regionName) ? regionName : null;
+    if (this.isLayoutPending) return;
+    this.zoomTo(this.getFocusNode(), true);
+  }
+
+  /**
+   * Zooms out one level, to the parent of the focused region.
+   */
+  public zoomOut(): void {
+    const parent = this.getFocusNode()?.parent;
+    this.zoomToRegion(parent && parent.depth > 0 ? parent.data.name : null);
+  }
+
+  /**
+   * Zooms back out to show the whole chart.
+   */
+  public resetZoom(): void {
+    this.zoomToRegion(null);
+  }
+
+  /**
+   * Returns the name of the currently focused region, or null if the chart is zoomed out.
+   */
+  public getFocusedRegion(): string | null {
+    return this.focusName;
+  }
 
-    if (!this.group || this.nodes.length === 0) return;
+  /**
+   * Summarises the countries of a region from the hierarchy the nodes are laid out from.
+   *
+   * @param regionName - Name of the region
+   * @returns The summary, or null if the region is not shown
+   */
+  public getRegionSummary(regionName: string): RegionSummary | null {
+    const region = this.findRegion(regionName);
+    return region
+      ? summariseRegion(region, this.metrics.list(), this.valueKey)
+      : null;
+  }
+
+  /**
+   * Returns the current pack layout, including the custom positions of the region circles.
+   */
+  public getLayout(): ChartLayout {
+    return {
+      width: this.packWidth,
+      height: this.packHeight,
+      nodes: this.nodes,
+    };
+  }
 
-    // Update the pack layout
-    const pack = d3
-      .pack<NodeData>()
-      .size([rectWidth, rectHeight])
-      .padding(Math.max(2, Math.min(rectWidth, rectHeight) * 0.01));
+  /**
+   * Changes the colour scale and recolours the rendered circles, without re-running the layout.
+   *
+   * @param colourScale - Maps top-level group names to colours
+   */
+  public setColourScale(colourScale: d3.ScaleOrdinal<string, string>): void {
+    this.colourScale = colourScale;
 
-    // Re-apply pack layout to the existing hierarchy
-    if (this.nodes[0]) {
-      pack(this.nodes[0] as any);
+    if (!this.group) return;
+    if (this.canvasRenderer) {
+      this.canvasRenderer.setStyle(
+        this.getCanvasStyle(Math.min(this.packWidth, this.packHeight))
+      );
+      return;
     }
+    this.colourCircles(
+      this.group.selectAll<
+        SVGCircleElement,
+        d3.HierarchyCircularNode<NodeData>
+      >('g.node circle')
+    );
+  }
 
-    // Update positioning of the region circles
-    this.positionRegionCircles(rectWidth, rectHeight);
+  /**
+   * Sets the theme's fill opacities and outline shades of the circles, and redraws them without a
+   * re-layout. Its other colours are applied through CSS custom properties set on a containing
+   * element, and its palette through the colour scale.
+   *
+   * @param theme - The theme to draw the circles with
+   */
+  public setTheme(theme: ChartTheme): void {
+    this.theme = theme;
 
-    // Update group transform
-    this.group.attr('transform', `translate(0, 0)`);
+    if (!this.group) return;
+    if (this.canvasRenderer) {
+      this.canvasRenderer.setStyle(
+        this.getCanvasStyle(Math.min(this.packWidth, this.packHeight))
+      );
+      return;
+    }
+    const circles = this.group.selectAll<
+      SVGCircleElement,
+      d3.HierarchyCircularNode<NodeData>
+    >('g.node circle');
+    this.colourCircles(circles);
+    circles.attr('fill-opacity', (d) => this.getFillOpacity(d));
+  }
 
-    // Update node positions and sizes
-    const node = this.group.selectAll('g.node');
-    node
-      .transition()
-      .duration(300)
-      .attr('transform', (d: any) => `translate(${d.x},${d.y})`);
+  /**
+   * Fills the country circles with a pattern per top-level group (hatch, dots, crosshatch or
+   * stripes) in the group's colour, or with the plain colour. Patterns are only drawn on SVG
+   * circles, not on the canvas.
+   *
+   * @param enabled - Whether to fill the circles with patterns
+   */
+  public setPatternFills(enabled: boolean): void {
+    this.patternFills = enabled;
+
+    if (!this.group || this.canvasRenderer) return;
+    this.colourCircles(
+      this.group.selectAll<
+        SVGCircleElement,
+        d3.HierarchyCircularNode<NodeData>
+      >('g.node circle')
+    );
+  }
 
-    // Update region circles
-    node
-      .selectAll('circle')
-      .transition()
-      .duration(300)
-      .attr('r', (d: any) => d.r)
-      .attr('stroke-width', (d: any) => {
-        const baseWidth = Math.max(0.5, size * 0.001);
-        return d.children ? baseWidth * 2 : baseWidth;
-      });
+  /**
+   * Previews the chart as seen with a colour vision deficiency, by filtering the chart container.
+   *
+   * @param vision - The deficiency to simulate, or null to show the chart as it is
+   */
+  public setColourVision(vision: ColourVision | null): void {
+    const containerNode = this.container.node() as HTMLElement | null;
+    if (!containerNode) return;
+
+    if (vision === null) {
+      this.container.select('svg.colour-vision').remove();
+      containerNode.style.removeProperty('filter');
+      return;
+    }
+
+    // The filter is kept in its own hidden SVG, so that it survives the chart being cleared
+    const id = `${this.idPrefix}-colour-vision`;
+    this.container
+      .selectAll('svg.colour-vision')
+      .data([vision])
+      .join((enter) => {
+        const svg = enter
+          .append('svg')
+          .attr('class', 'colour-vision')
+          .attr('aria-hidden', 'true')
+          .attr('width', 0)
+          .attr('height', 0)
+          .style('position', 'absolute');
+        svg.append('filter').attr('id', id).append('feColorMatrix');
+        return svg;
+      })
+      .select('feColorMatrix')
+      .attr('type', 'matrix')
+      .attr('values', toColorMatrixValues(vision));
+    containerNode.style.setProperty('filter', `url(#${id})`);
+  }
 
-    // Update the side drawer dimensions (relevant if drawer is open)
-    this.updateDrawerDimensions();
+  /**
+   * Highlights the named nodes and dims the others, e.g. to show search matches. Regions containing
+   * a highlighted node are not dimmed. The highlight is kept when the chart is re-rendered.
+   *
+   * @param names - Names of the nodes to highlight, or null to remove the highlight
+   */
+  public highlightNodes(names: Set<string> | null): void {
+    this.highlightedNames = names;
+    this.applyHighlight();
   }
 
   public clear(): void {
     this.svg.selectAll('*').remove();
     this.group = null;
+    this.toggleGroup = undefined;
     this.nodes = [];
+    this.data = null;
+    this.root = null;
+    this.layoutEngine.cancel();
+    this.isLayoutPending = false;
+    this.hitTester = null;
+    this.canvasRenderer?.clear();
   }
 
   public destroy(): void {
     if (this.toggleGroup) {
       this.toggleGroup.remove();
     }
-    d3.select('.drawer').remove();
-    d3.select('.drawer-overlay').remove();
+    this.container.select('.drawer').remove();
+    this.container.select('.drawer-overlay').remove();
+    this.setColourVision(null);
+    this.tooltip.remove();
+    d3.select(document).on(`keydown.${this.eventNamespace}`, null);
+    this.drawerContainer = null;
     this.clear();
+    this.layoutEngine.destroy();
+
+    if (this.canvasRenderer) {
+      const svgElement = this.svg.node();
+      if (svgElement) setNodeHitTester(svgElement, null);
+      this.svg.on('.canvas', null);
+      this.canvasRenderer.destroy();
+      this.canvasRenderer = null;
+    }
   }
 
   /**
-   * Creates the toggle which allows sers to choose between population and land area.
+   * Creates the segmented toggle which allows users to choose which metric sizes the circles.
+   *
+   * @param metrics - The metrics to show a segment for
    */
-  public createToggle(): void {
-    // Remove existing toggle if it exists
-    if (this.toggleGroup) {
-      this.toggleGroup.remove();
+  public createToggle(metrics: MetricDefinition[]): void {
+    const toggleWidth = metrics.length * TOGGLE_SEGMENT_WIDTH + 8;
+
+    // Create the toggle group once, so the slider can transition between renders
+    if (!this.toggleGroup) {
+      this.toggleGroup = this.svg
+        .append('g')
+        .attr('class', 'value-toggle')
+        .attr('transform', 'translate(20, 20)')
+        .attr('role', 'radiogroup')
+        .attr('aria-label', 'Size circles by');
+
+      // Toggle background
+      this.toggleGroup
+        .append('rect')
+        .attr('class', 'toggle-background')
+        .attr('rx', 20);
+
+      // Toggle switch background
+      this.toggleGroup
+        .append('rect')
+        .attr('class', 'switch-background')
+        .attr('x', 5)
+        .attr('y', 5)
+        .attr('rx', 15);
+
+      // Toggle switch slider
+      this.toggleGroup
+        .append('rect')
+        .attr('class', 'toggle-slider')
+        .attr('x', 7)
+        .attr('y', 7)
+        .attr('rx', 13);
     }
 
-    // Create the toggle group
-    this.toggleGroup = this.svg
-      .append('g')
-      .attr('class', 'value-toggle')
-      .attr('transform', 'translate(20, 20)');
-
-    // Toggle background
-    this.toggleGroup
-      .append('rect')
-      .attr('class', 'toggle-background')
-      .attr('rx', 20);
-
-    // Toggle switch background
+    this.toggleGroup.select('.toggle-background').attr('width', toggleWidth);
     this.toggleGroup
-      .append('rect')
-      .attr('class', 'switch-background')
-      .attr('x', 5)
-      .attr('y', 5)
-      .attr('rx', 15);
+      .select('.switch-background')
+      .attr('width', toggleWidth - 10);
 
-    // Toggle switch slider
+    // One label per metric
     this.toggleGroup
-      .append('rect')
-      .attr('class', 'toggle-slider')
-      .attr('x', 7)
-      .attr('y', 7)
-      .attr('rx', 13);
-
-    // Left label (Land Area)
-    this.toggleGroup
-      .append('text')
-      .attr('class', 'toggle-label-left active')
-      .attr('x', 52)
-      .attr('y', 25)
-      .text('Land Area');
-
-    // Right label (Population)
-    this.toggleGroup
-      .append('text')
-      .attr('class', 'toggle-label-right')
-      .attr('x', 148)
+      .selectAll<SVGTextElement, MetricDefinition>('text.toggle-label')
+      .data(metrics, (d) => d.key)
+      .join('text')
+      .attr('class', 'toggle-label')
+      .attr('x', (d, i) => 52 + i * TOGGLE_SEGMENT_WIDTH)
       .attr('y', 25)
-      .text('Population');
+      .attr('aria-hidden', 'true')
+      .text((d) => d.label);
 
-    // Make the entire toggle area clickable
+    // Make each segment clickable
     this.toggleGroup
-      .append('rect')
-      .attr('class', 'toggle-click-area')
-      .attr('width', 200)
+      .selectAll<SVGRectElement, MetricDefinition>('rect.toggle-segment')
+      .data(metrics, (d) => d.key)
+      .join('rect')
+      .attr('class', 'toggle-segment')
+      .attr('role', 'radio')
+      .attr('aria-label', (d) => d.label)
+      .attr('x', (d, i) => 4 + i * TOGGLE_SEGMENT_WIDTH)
+      .attr('width', TOGGLE_SEGMENT_WIDTH)
       .attr('height', 40);
   }
 
   /**
    * Updates the visual state of the toggle.
    *
-   * @prama valueKey - The current value being visualised (population or land area)
+   * @param valueKey - The current metric being visualised
    */
-  public updateToggleState(valueKey: 'population' | 'landAreaKM2'): void {
+  public updateToggleState(valueKey: MetricKey): void {
     if (!this.toggleGroup) return;
 
-    const isPopulation = valueKey === 'population';
+    const activeIndex = Math.max(
+      0,
+      this.metrics.list().findIndex((metric) => metric.key === valueKey)
+    );
 
     const slider = this.toggleGroup.select('.toggle-slider');
-    const leftLabel = this.toggleGroup.select('.toggle-label-left');
-    const rightLabel = this.toggleGroup.select('.toggle-label-right');
+    const labels = this.toggleGroup.selectAll<SVGTextElement, MetricDefinition>(
+      '.toggle-label'
+    );
 
     const transition = d3.transition().duration(20).ease(d3.easeSinOut);
 
-    if (isPopulation) {
-      slider
-        .attr('transform', 'translate(0, 0)')
-        .transition(transition)
-        .attr('transform', 'translate(96, 0)');
-      leftLabel
-        .classed('active', false)
-        .attr('fill', '#fff')
-        .transition(transition)
-        .attr('fill', '#666');
-      rightLabel
-        .classed('active', true)
-        .attr('fill', '#666')
-        .transition(transition)
-        .attr('fill', '#fff');
-    } else {
-      slider
-        .attr('transform', 'translate(96, 0)')
-        .transition(transition)
-        .attr('transform', 'translate(0, 0)');
-      leftLabel
-        .classed('active', true)
-        .attr('fill', '#666')
-        .transition(transition)
-        .attr('fill', '#fff');
-
-      rightLabel
-        .classed('active', false)
-        .attr('fill', '#fff')
-        .transition(transition)
-        .attr('fill', '#666');
-    }
+    slider
+      .transition(transition)
+      .attr('transform', `translate(${activeIndex * TOGGLE_SEGMENT_WIDTH}, 0)`);
+
+    // The label colours follow the theme's CSS custom properties
+    labels.classed('active', (d) => d.key === valueKey);
+
+    // Only the selected segment is in the tab order, the arrow keys move between segments
+    this.toggleGroup
+      .selectAll<SVGRectElement, MetricDefinition>('.toggle-segment')
+      .attr('aria-checked', (d) => String(d.key === valueKey))
+      .attr('tabindex', (d) => (d.key === valueKey ? 0 : -1));
   }
 
   /**
@@ -279,23 +594,17 @@ export class CircularPackChart {
    */
   public createDrawer(): void {
     // Remove existing drawer if it exists
-    d3.select('.drawer').remove();
-    d3.select('.drawer-overlay').remove();
+    this.container.select('.drawer').remove();
+    this.container.select('.drawer-overlay').remove();
 
-    const svgRect = this.svg
-      .select('.svg-viewbox-rect')
-      .node() as SVGRectElement;
+    const rectBounds = this.getViewboxRectBounds();
 
-    if (!svgRect) return;
+    if (!rectBounds) return;
 
-    const rectBounds = svgRect.getBoundingClientRect();
     const drawerWidth = 400;
 
-    d3.select('body').classed('d3-circular-pack', true);
-
     // Create the overlay
-    const overlay = d3
-      .select('body')
+    const overlay = this.container
       .append('div')
       .attr('class', 'drawer-overlay')
       .style('top', `${rectBounds.top}px`)
@@ -304,11 +613,12 @@ export class CircularPackChart {
       .style('height', `${rectBounds.height}px`);
 
     // Create the drawer
-    const drawer = d3
-      .select('body')
+    const drawer = this.container
       .append('div')
       .attr('class', 'drawer')
-      .style('position', 'fixed')
+      .attr('role', 'dialog')
+      .attr('aria-modal', 'true')
+      .style('position', 'absolute')
       .style('width', `${drawerWidth}px`)
       .style('top', `${rectBounds.top}px`)
       .style('left', `${rectBounds.right - drawerWidth}px`)
@@ -324,6 +634,7 @@ export class CircularPackChart {
     content
       .append('button')
       .attr('class', 'drawer-close')
+      .attr('aria-label', 'Close')
       .html('&times;')
       .on('click', () => {
         this.closeDrawer();
@@ -339,6 +650,37 @@ export class CircularPackChart {
     }, 10);
 
     overlay.on('click', () => this.closeDrawer());
+
+    // Keep the keyboard focus within the drawer while it is open
+    drawer.on('keydown', (event: KeyboardEvent) => this.trapDrawerFocus(event));
+  }
+
+  /**
+   * Wraps the keyboard focus around the focusable elements of the drawer when tabbing past the
+   * first or last of them.
+   *
+   * @param event - The keydown event within the drawer
+   */
+  private trapDrawerFocus(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.drawerContainer) return;
+
+    const focusable = this.drawerContainer
+      .selectAll<HTMLElement, unknown>(
+        'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])'
+      )
+      .nodes();
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
   }
 
   /**
@@ -348,7 +690,46 @@ export class CircularPackChart {
    * @param onCloseCallback - Callback when drawer is closed
    */
   public openDrawer(countryData: any, onCloseCallback?: () => void): void {
+    this.showDrawer(
+      () => this.populateDrawerContent(countryData),
+      onCloseCallback
+    );
+  }
+
+  /**
+   * Handles opening of the side drawer comparing countries side by side.
+   *
+   * @param countries - Data for the compared countries, in the order they were picked
+   * @param onRemove - Callback when a country is removed from the comparison
+   * @param onCloseCallback - Callback when drawer is closed
+   */
+  public openComparison(
+    countries: NodeData[],
+    onRemove: (name: string) => void,
+    onCloseCallback?: () => void
+  ): void {
+    this.showDrawer(
+      () => this.populateComparisonContent(countries, onRemove),
+      onCloseCallback
+    );
+  }
+
+  /**
+   * Creates the drawer if it is not open yet, adds its content and slides it in.
+   *
+   * @param populate - Adds the content to the drawer
+   * @param onCloseCallback - Callback when drawer is closed
+   */
+  private showDrawer(populate: () => void, onCloseCallback?: () => void): void {
     if (!this.drawerContainer) {
+      // Remember where the focus was, so it can be restored when the drawer is closed
+      if (
+        document.activeElement instanceof HTMLElement ||
+        document.activeElement instanceof SVGElement
+      ) {
+        this.drawerReturnFocus = document.activeElement;
+      }
+
       this.createDrawer();
 
       if (onCloseCallback) {
@@ -357,12 +738,15 @@ export class CircularPackChart {
     }
 
     // Add the drawer content and show the overlay
-    this.populateDrawerContent(countryData);
-    const overlay = d3.select('.drawer-overlay');
+    populate();
+    const overlay = this.container.select('.drawer-overlay');
     overlay.style('visibility', 'visible').style('opacity', '1');
 
-    // Slide in drawer
+    // Slide in drawer and move the focus into it
     this.drawerContainer!.style('right', '0px');
+    this.drawerContainer!.select<HTMLButtonElement>('.drawer-close')
+      .node()
+      ?.focus();
   }
 
   /**
@@ -372,23 +756,24 @@ export class CircularPackChart {
    */
   private setupDrawerCloseInteractions(onCloseCallback: () => void): void {
     // Setup close button interaction
-    d3.select('.drawer-close').on('click', () => {
+    this.container.select('.drawer-close').on('click', () => {
       onCloseCallback();
     });
 
     // Setup overlay click to close drawer
-    d3.select('.drawer-overlay').on('click', () => {
+    this.container.select('.drawer-overlay').on('click', () => {
       onCloseCallback();
     });
 
     // Prevent clicks inside drawer content from closing the drawer
-    d3.select('.drawer-outer-content').on('click', function (event) {
+    this.container.select('.drawer-body').on('click', function (event) {
       event.stopPropagation();
     });
 
-    // Setup an escape key listener to also close the drawer
-    d3.select('body').on('keydown.drawer', (event) => {
-      if (event.key === 'Escape') {
+    // Setup an escape key listener to also close the drawer, namespaced so that each chart keeps
+    // its own listener
+    d3.select(document).on(`keydown.${this.eventNamespace}`, (event) => {
+      if (event.key === 'Escape' && this.drawerContainer) {
         onCloseCallback();
       }
     });
@@ -401,12 +786,15 @@ export class CircularPackChart {
     if (!this.drawerContainer) return;
 
     const drawer = this.drawerContainer;
-    const overlay = d3.select('.drawer-overlay');
+    const overlay = this.container.select('.drawer-overlay');
 
     drawer.style('transform', 'translateX(100%)');
 
     overlay.style('opacity', '0');
 
+    this.drawerReturnFocus?.focus();
+    this.drawerReturnFocus = null;
+
     setTimeout(() => {
       drawer.remove();
       overlay.remove();
@@ -420,13 +808,14 @@ export class CircularPackChart {
    * @param - Data for the current selected country
    */
   private populateDrawerContent(countryData: any): void {
-    const drawerBody = d3.select('.drawer-content');
+    const drawerBody = this.container.select('.drawer-content');
 
     // Clear any existing content
     drawerBody.selectAll('*').remove();
 
-    // Add country name as the header
+    // Add country name as the header, which also names the dialog
     drawerBody.append('h2').text(countryData.name);
+    this.drawerContainer?.attr('aria-label', countryData.name);
 
     // Add the flag
     if (countryData.flag) {
@@ -436,33 +825,31 @@ export class CircularPackChart {
         .attr('alt', `${countryData.country} flag`);
     }
 
-    // Create the info container, which holds area and population information
+    // Create the info container, which holds the value of every registered metric
     const infoContainer = drawerBody
       .append('div')
       .attr('class', 'info-container')
       .style('margin-bottom', '20px');
 
-    // Add land area info
-    if (countryData.landAreaKM2) {
-      const areaDiv = infoContainer
+    this.metrics.list().forEach((metric) => {
+      const value = countryData.metrics?.[metric.key];
+      if (value === undefined) return;
+
+      const metricDiv = infoContainer
         .append('div')
         .style('margin-bottom', '15px');
-      areaDiv.append('strong').text('Area: ');
-      areaDiv
-        .append('span')
-        .text(`${countryData.landAreaKM2.toLocaleString()} km²`);
-    }
+      metricDiv.append('strong').text(`${metric.label}: `);
+      metricDiv.append('span').text(this.metrics.format(metric.key, value));
+    });
 
-    // Add population info
-    if (countryData.population) {
-      const populationDiv = infoContainer
+    // Add any metadata fields of the dataset
+    Object.entries(countryData.metadata ?? {}).forEach(([field, value]) => {
+      const metadataDiv = infoContainer
         .append('div')
         .style('margin-bottom', '15px');
-      populationDiv.append('strong').text('Population: ');
-      populationDiv
-        .append('span')
-        .text(countryData.population.toLocaleString());
-    }
+      metadataDiv.append('strong').text(`${field}: `);
+      metadataDiv.append('span').text(String(value));
+    });
 
     // Add the Wikipedia link
     if (countryData.wikipedia) {
@@ -476,23 +863,125 @@ export class CircularPackChart {
     }
   }
 
+  /**
+   * Adds a table comparing the metrics of the countries to the drawer. Each value shows a
+   * mini-circle sized by area and its ratio to the value of the first country picked.
+   *
+   * @param countries - Data for the compared countries, in the order they were picked
+   * @param onRemove - Callback when a country is removed from the comparison
+   */
+  private populateComparisonContent(
+    countries: NodeData[],
+    onRemove: (name: string) => void
+  ): void {
+    const drawerBody = this.container.select('.drawer-content');
+    drawerBody.selectAll('*').remove();
+
+    drawerBody.append('h2').text('Comparison');
+    this.drawerContainer?.attr('aria-label', 'Country comparison');
+
+    drawerBody
+      .append('p')
+      .attr('class', 'comparison-hint')
+      .text(
+        `Shift-click up to ${MAX_COMPARED_COUNTRIES} countries to compare them.`
+      );
+
+    // List the compared countries, each with a button to remove it
+    const items = drawerBody
+      .append('ul')
+      .attr('class', 'comparison-countries')
+      .selectAll('li')
+      .data(countries)
+      .join('li');
+    items
+      .append('span')
+      .attr('class', 'comparison-swatch')
+      .style('background', (country) => this.getCountryColour(country));
+    items.append('span').text((country) => country.name);
+    items
+      .append('button')
+      .attr('type', 'button')
+      .attr('class', 'comparison-remove')
+      .attr('aria-label', (country) => `Remove ${country.name}`)
+      .text('×')
+      .on('click', (event, country) => onRemove(country.name));
+
+    // Table of the metrics, one column per country
+    const rows = toComparisonRows(
+      countries,
+      this.metrics.list(),
+      COMPARISON_CIRCLE_RADIUS
+    );
+    const table = drawerBody.append('table').attr('class', 'comparison-table');
+    const header = table.append('thead').append('tr');
+    header.append('th').attr('scope', 'col').text('Metric');
+    countries.forEach((country) =>
+      header.append('th').attr('scope', 'col').text(country.name)
+    );
+
+    const body = table.append('tbody');
+    rows.forEach((row) => {
+      const tr = body.append('tr');
+      tr.append('th').attr('scope', 'row').text(row.metric.label);
+
+      row.values.forEach((value, i) => {
+        const cell = tr.append('td');
+        if (value === null) {
+          cell.text('–');
+          return;
+        }
+
+        const size = COMPARISON_CIRCLE_RADIUS * 2;
+        cell
+          .append('svg')
+          .attr('class', 'comparison-circle')
+          .attr('width', size)
+          .attr('height', size)
+          .attr('aria-hidden', 'true')
+          .append('circle')
+          .attr('cx', COMPARISON_CIRCLE_RADIUS)
+          .attr('cy', COMPARISON_CIRCLE_RADIUS)
+          .attr('r', row.radii[i])
+          .attr('fill', this.getCountryColour(countries[i]));
+        cell.append('div').text(this.metrics.format(row.metric.key, value));
+
+        // Ratios are relative to the first country, so it has none
+        const ratio = row.ratios[i];
+        if (i > 0 && ratio !== null) {
+          cell
+            .append('div')
+            .attr('class', 'comparison-ratio')
+            .text(`×${d3.format('.3~g')(ratio)}`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Returns the fill colour of a country's circle in the chart, or grey if it is not shown.
+   */
+  private getCountryColour(country: NodeData): string {
+    const node = this.nodes.find(
+      (d) => !d.children && d.data.name === country.name
+    );
+    return node ? this.getFillColour(node) : '#CCC';
+  }
+
   /**
    * Recalculates the overlay and drawer positions and dimensions based on the current
    * svg-viewbox-rect element bounds.
    */
   private updateDrawerDimensions(): void {
-    const overlay = d3.select('.drawer-overlay');
-    const drawer = d3.select('.drawer');
+    const overlay = this.container.select('.drawer-overlay');
+    const drawer = this.container.select('.drawer');
 
     if (overlay.empty() || drawer.empty()) return;
 
-    const svgRect = this.svg
-      .select('.svg-viewbox-rect')
-      .node() as SVGRectElement;
+    const rectBounds = this.getViewboxRectBounds();
 
-    if (!svgRect) return;
+    if (!rectBounds) return;
 
-    const rectBounds = svgRect.getBoundingClientRect();
     const drawerWidth = 400;
 
     // Update overlay dimensions
@@ -510,68 +999,606 @@ export class CircularPackChart {
   }
 
   /**
-   * Draws the child nodes within the pack layout.
+   * Gets the bounds of the chart's viewbox rectangle, relative to the chart container.
+   *
+   * @returns The bounds, or null if the chart has not been rendered yet
+   */
+  private getViewboxRectBounds(): {
+    top: number;
+    left: number;
+    right: number;
+    width: number;
+    height: number;
+  } | null {
+    const svgRect = this.svg
+      .select('.svg-viewbox-rect')
+      .node() as SVGRectElement | null;
+    const containerNode = this.container.node();
+
+    if (!svgRect || !containerNode) return null;
+
+    const rectBounds = svgRect.getBoundingClientRect();
+    const containerBounds = containerNode.getBoundingClientRect();
+    const top = rectBounds.top - containerBounds.top;
+    const left = rectBounds.left - containerBounds.left;
+
+    return {
+      top,
+      left,
+      right: left + rectBounds.width,
+      width: rectBounds.width,
+      height: rectBounds.height,
+    };
+  }
+
+  /**
+   * Requests the layout of the latest data at the current pack size. Once it is computed, the
+   * nodes are given their positions and the callback draws them. Only the callback of the latest
+   * request is called. When the layout cannot be computed, the previous layout stays in place.
+   *
+   * @param onLayout - Callback function when the layout has been applied to the nodes
+   */
+  private requestLayout(onLayout: () => void): void {
+    const { data, root } = this;
+    if (!data || !root) return;
+
+    this.isLayoutPending = true;
+    this.layoutEngine.compute(
+      {
+        data,
+        valueKey: this.valueKey,
+        width: this.packWidth,
+        height: this.packHeight,
+        placement: this.groupPlacement,
+        type: this.layoutType,
+      },
+      (positions) => {
+        this.nodes = applyLayout(root, positions);
+        this.isLayoutPending = false;
+        onLayout();
+      },
+      (error) => {
+        this.isLayoutPending = false;
+        console.error('Chart layout could not be computed:', error);
+      }
+    );
+  }
+
+  /**
+   * Draws the child nodes within the pack layout. Nodes are joined to the existing elements by
+   * their name path, so that nodes which stay in the chart move and resize to their new layout,
+   * new nodes grow in from their position and removed nodes shrink out.
    *
    * @param width - Pack width
    * @param height - Pack height
-   * @returns
+   * @param duration - Duration of the transition in milliseconds
    */
-  private drawNodes(width: number, height: number): void {
+  private drawNodes(width: number, height: number, duration: number): void {
     if (!this.group) return;
     const size = Math.min(width, height);
 
     // Filter out root node to hide the pack circle
     const nodesToRender = this.nodes.filter((d, i) => i !== 0);
 
+    if (this.canvasRenderer) {
+      this.drawCanvasNodes(nodesToRender, size, duration);
+      return;
+    }
+
     const node = this.group
-      .selectAll('g')
-      .data(nodesToRender)
-      .join('g')
+      .selectAll<SVGGElement, d3.HierarchyCircularNode<NodeData>>('g.node')
+      .data(nodesToRender, (d) => this.getNodeKey(d))
+      .join(
+        (enter) => {
+          const entered = enter
+            .append('g')
+            .attr('transform', (d) => `translate(${d.x},${d.y})`);
+          entered
+            .append('circle')
+            .attr('r', 0)
+            .attr('vector-effect', 'non-scaling-stroke');
+          return entered;
+        },
+        (update) => update,
+        (exit) => {
+          exit
+            .classed('exiting', true)
+            .attr('tabindex', null)
+            .attr('aria-hidden', 'true')
+            .selectAll('text')
+            .remove();
+          exit
+            .select('circle')
+            .transition('layout')
+            .duration(duration)
+            .attr('r', 0);
+          exit.transition('layout').duration(duration).remove();
+          return exit;
+        }
+      )
       .attr('class', (d) => {
         const baseClass = 'node';
         // Classes for region circles and country leaf nodes
         const typeClass = d.children ? 'region-node' : 'country-node';
         return `${baseClass} ${typeClass}`;
       })
+      .style('cursor', 'pointer')
+      .attr('role', 'treeitem')
+      .attr('aria-level', (d) => d.depth)
+      .attr('aria-setsize', (d) => d.parent?.children?.length ?? 1)
+      .attr('aria-posinset', (d) => (d.parent?.children?.indexOf(d) ?? 0) + 1)
+      .attr('aria-expanded', (d) => (d.children ? 'true' : null))
+      .attr('aria-label', (d) => this.getTooltipText(d).replace(/\n/g, ', '));
+
+    // Roving tabindex: only one node is in the tab order, the arrow keys move between nodes. The
+    // tabbable node is kept between renders, unless it has been removed.
+    node.filter(':not([tabindex])').attr('tabindex', -1);
+    if (node.filter('[tabindex="0"]').empty()) {
+      node.attr('tabindex', (d, i) => (i === 0 ? 0 : -1));
+    }
+
+    // Keep the drawing order of the layout, so that country nodes are drawn over their regions
+    node.order();
+
+    // Labels are only shown on country nodes
+    node
+      .filter((d) => !!d.children)
+      .selectAll('text')
+      .remove();
+
+    node
+      .transition('layout')
+      .duration(duration)
       .attr('transform', (d) => `translate(${d.x},${d.y})`);
 
     // Draw region circles
-    node
-      .append('circle')
+    const circles = node.select<SVGCircleElement>('circle');
+    this.colourCircles(circles);
+
+    // Region circles overlap on the map, so only their outlines are drawn
+    circles
+      .transition('layout')
+      .duration(duration)
+      .attr('fill-opacity', (d) => this.getFillOpacity(d))
       .attr('r', (d) => d.r)
-      .attr('fill', (d) => {
-        if (d.children) {
-          // Region circles - use colour scale
-          return this.colourScale(d.data.name || '');
-        } else {
-          // Leaf nodes
-          const parentColour = this.colourScale(d.parent?.data.name || '');
-          return parentColour || '#CCC';
-        }
-      })
-      .attr('stroke', (d) => {
-        if (d.children) {
-          // Region circles strokes
-          const fillColour = this.colourScale(d.data.name || '');
-          return d3.color(fillColour)?.darker(0.5)?.toString() || '#555';
-        } else {
-          // Leaf nodes strokes
-          const parentColour = this.colourScale(d.parent?.data.name || '');
-          return d3.color(parentColour)?.darker(0.8)?.toString() || '#333';
-        }
-      })
       .attr('stroke-width', (d) => {
         // Thicker stroke for regions
         const baseWidth = Math.max(0.5, size * 0.001);
         return d.children ? baseWidth * 2 : baseWidth;
-      })
-      .attr('fill-opacity', (d) => (d.children ? 0.2 : 0.5));
+      });
 
-    // Add text labels for leaf nodes
-    this.addTextLabels(node.filter((d) => !d.children));
+    this.applyHighlight();
 
     // Add mouseover effects on nodes
-    addNodeHoverEffects(node, size);
+    addNodeHoverEffects(
+      node,
+      size,
+      this.tooltip,
+      (d) => this.getTooltipText(d),
+      () => this.theme
+    );
+  }
+
+  /**
+   * Draws the child nodes on the canvas and indexes them for hit testing.
+   *
+   * @param nodes - The nodes to draw
+   * @param size - Smaller of the pack width and height
+   * @param duration - Duration of the transition in milliseconds
+   */
+  private drawCanvasNodes(
+    nodes: d3.HierarchyCircularNode<NodeData>[],
+    size: number,
+    duration: number
+  ): void {
+    if (!this.canvasRenderer) return;
+
+    const bounds = this.getViewboxRectBounds();
+    if (bounds) this.canvasRenderer.setBounds(bounds, this.packWidth);
+
+    this.canvasRenderer.setStyle(this.getCanvasStyle(size));
+    this.canvasRenderer.setHighlight(this.highlightedNames);
+    this.canvasRenderer.update(nodes, (d) => this.getNodeKey(d), duration);
+    this.hitTester = createHitTester(nodes);
+  }
+
+  /**
+   * Returns the colours and stroke width of circles drawn on the canvas, matching those of the SVG
+   * circles. Colours only depend on the top-level group and whether the node is a region, so they
+   * are computed once per group rather than for every node in every frame.
+   *
+   * @param size - Smaller of the pack width and height
+   */
+  private getCanvasStyle(size: number): CanvasNodeStyle {
+    const colours = new Map<string, { fill: string; stroke: string }>();
+    const getColours = (d: d3.HierarchyCircularNode<NodeData>) => {
+      const key = `${d.children ? 'region' : 'country'}/${this.getGroupName(d)}`;
+      let entry = colours.get(key);
+      if (!entry) {
+        entry = {
+          fill: this.getFillColour(d),
+          stroke: this.getStrokeColour(d),
+        };
+        colours.set(key, entry);
+      }
+      return entry;
+    };
+
+    return {
+      fill: (d) => getColours(d).fill,
+      stroke: (d) => getColours(d).stroke,
+      strokeWidth: Math.max(0.5, size * 0.001),
+      regionFillOpacity: this.getRegionFillOpacity(),
+      countryFillOpacity: this.theme.countryFillOpacity,
+      hoverFillOpacity: this.theme.hoverFillOpacity,
+      labelColour: this.theme.text,
+      highlightColour: this.theme.highlight,
+    };
+  }
+
+  /**
+   * Returns the fill opacity of a node's circle from the theme.
+   */
+  private getFillOpacity(d: d3.HierarchyCircularNode<NodeData>): number {
+    return d.children
+      ? this.getRegionFillOpacity()
+      : this.theme.countryFillOpacity;
+  }
+
+  /**
+   * Returns the fill opacity of region circles, which are only outlined when they overlap on the
+   * map.
+   */
+  private getRegionFillOpacity(): number {
+    return this.layoutType === 'geo' ? 0 : this.theme.regionFillOpacity;
+  }
+
+  /**
+   * Finds the node under the pointer of an event, for nodes drawn on the canvas. The toggle is drawn
+   * over the canvas, so events on it never hit a node.
+   *
+   * @param event - The mouse event
+   * @returns The innermost node under the pointer, or undefined if there is none
+   */
+  private findNodeAt(
+    event: MouseEvent
+  ): d3.HierarchyCircularNode<NodeData> | undefined {
+    const svgElement = this.svg.node();
+    if (
+      !this.hitTester ||
+      !svgElement ||
+      (event.target instanceof Element && event.target.closest('.value-toggle'))
+    ) {
+      return undefined;
+    }
+
+    // Undo the camera view to get the point in the coordinates of the pack layout
+    const [x, y] = d3.pointer(event, svgElement);
+    const k = this.getZoomScale();
+    return this.hitTester(
+      this.view[0] + (x - this.packWidth / 2) / k,
+      this.view[1] + (y - this.packHeight / 2) / k
+    );
+  }
+
+  /**
+   * Applies the classes of highlighted and dimmed nodes.
+   */
+  private applyHighlight(): void {
+    this.canvasRenderer?.setHighlight(this.highlightedNames);
+    if (!this.group) return;
+
+    const names = this.highlightedNames;
+    const isHighlighted = (d: d3.HierarchyCircularNode<NodeData>) =>
+      names !== null && names.has(d.data.name);
+
+    this.group
+      .selectAll<SVGGElement, d3.HierarchyCircularNode<NodeData>>('g.node')
+      .classed('highlighted', isHighlighted)
+      .classed(
+        'dimmed',
+        (d) => names !== null && !d.descendants().some(isHighlighted)
+      );
+  }
+
+  /**
+   * Returns the key a node is joined on: the names of its ancestors below the root and its own
+   * name, so that nodes with the same name in different groups are kept apart.
+   *
+   * @param d - The node
+   * @returns Key of the node
+   */
+  private getNodeKey(d: d3.HierarchyCircularNode<NodeData>): string {
+    return d
+      .ancestors()
+      .slice(0, -1)
+      .reverse()
+      .map((ancestor) => ancestor.data.name)
+      .join('/');
+  }
+
+  /**
+   * Sets the fill and stroke colours of node circles from the colour scale.
+   *
+   * @param circles - Selection of node circles
+   */
+  private colourCircles(
+    circles: d3.Selection<
+      SVGCircleElement,
+      d3.HierarchyCircularNode<NodeData>,
+      d3.BaseType,
+      unknown
+    >
+  ): void {
+    if (this.patternFills) {
+      this.updatePatterns();
+    }
+    circles
+      .attr('fill', (d) => this.getCircleFill(d))
+      .attr('stroke', (d) => this.getStrokeColour(d));
+  }
+
+  /**
+   * Returns the fill of a node's SVG circle: the pattern of its top-level group for country circles
+   * when pattern fills are on, otherwise its fill colour.
+   */
+  private getCircleFill(d: d3.HierarchyCircularNode<NodeData>): string {
+    if (!this.patternFills || d.children) {
+      return this.getFillColour(d);
+    }
+    const index = this.getGroupIndex(this.getGroupName(d));
+    return `url(#${this.getPatternId(index)})`;
+  }
+
+  /**
+   * Returns the index of a top-level group in the colour scale, which sets its colour and pattern.
+   */
+  private getGroupIndex(groupName: string): number {
+    // Using the scale adds the group to its domain, if it was not yet
+    this.colourScale(groupName);
+    return this.colourScale.domain().indexOf(groupName);
+  }
+
+  /**
+   * Returns the id of the pattern of the top-level group at an index.
+   */
+  private getPatternId(index: number): string {
+    return `${this.idPrefix}-pattern-${index}`;
+  }
+
+  /**
+   * Draws the pattern of each top-level group in its current colours.
+   */
+  private updatePatterns(): void {
+    const groups = this.nodes.filter((d) => d.depth === 1 && d.children);
+    const defs = this.svg
+      .selectAll<SVGDefsElement, unknown>('defs.patterns')
+      .data([null])
+      .join((enter) => enter.insert('defs', ':first-child'))
+      .attr('class', 'patterns');
+
+    drawPatterns(
+      d3.select(defs.node()!),
+      groups.map((group) => {
+        const index = this.getGroupIndex(group.data.name);
+        return {
+          id: this.getPatternId(index),
+          type: getPatternType(index),
+          background: this.getFillColour(group),
+          foreground: this.getStrokeColour(group.leaves()[0]),
+        };
+      })
+    );
+  }
+
+  /**
+   * Returns the fill colour of a node's circle, from the colour of its top-level group.
+   */
+  private getFillColour(d: d3.HierarchyCircularNode<NodeData>): string {
+    if (d.children) {
+      // Region circles - use colour scale
+      return this.colourScale(this.getGroupName(d));
+    } else {
+      // Leaf nodes
+      const parentColour = this.colourScale(this.getGroupName(d));
+      return parentColour || '#CCC';
+    }
+  }
+
+  /**
+   * Returns the stroke colour of a node's circle, a darker (or for dark themes lighter) shade of its
+   * fill colour.
+   */
+  private getStrokeColour(d: d3.HierarchyCircularNode<NodeData>): string {
+    if (d.children) {
+      // Region circles strokes
+      const fillColour = this.colourScale(this.getGroupName(d));
+      return (
+        d3
+          .color(fillColour)
+          ?.darker(this.theme.regionStrokeShade)
+          ?.toString() || '#555'
+      );
+    } else {
+      // Leaf nodes strokes
+      const parentColour = this.colourScale(this.getGroupName(d));
+      return (
+        d3
+          .color(parentColour)
+          ?.darker(this.theme.countryStrokeShade)
+          ?.toString() || '#333'
+      );
+    }
+  }
+
+  /**
+   * Returns the name of the top-level group (depth 1 ancestor) a node belongs to, which determines
+   * its colour at any depth of the hierarchy.
+   *
+   * @param d - The node
+   * @returns Name of the top-level group
+   */
+  private getGroupName(d: d3.HierarchyCircularNode<NodeData>): string {
+    let current: d3.HierarchyCircularNode<NodeData> = d;
+    while (current.parent && current.depth > 1) {
+      current = current.parent;
+    }
+    return current.data.name || '';
+  }
+
+  /**
+   * Returns the tooltip text of a node: its name, the value of the current metric and, for country
+   * nodes, the values of the derived metrics.
+   *
+   * @remarks
+   * Derived metrics are not shown for region circles, since summing ratios and shares across a
+   * region is not meaningful.
+   * @param d - The node to describe
+   * @returns Tooltip text, one line per entry
+   */
+  private getTooltipText(d: d3.HierarchyCircularNode<NodeData>): string {
+    const lines = [d.data.name];
+    const currentMetric = this.metrics.get(this.valueKey);
+
+    if (d.children) {
+      if (currentMetric && !currentMetric.derive && d.value !== undefined) {
+        lines.push(
+          `${currentMetric.label}: ${this.metrics.format(
+            this.valueKey,
+            d.value
+          )}`
+        );
+      }
+      return lines.join('\n');
+    }
+
+    this.metrics
+      .list()
+      .filter((metric) => metric.key === this.valueKey || metric.derive)
+      .forEach((metric) => {
+        const value = d.data.metrics?.[metric.key];
+        if (value !== undefined) {
+          lines.push(
+            `${metric.label}: ${this.metrics.format(metric.key, value)}`
+          );
+        }
+      });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Returns the region with the given name in the hierarchy of the latest render, which may not be
+   * laid out yet.
+   */
+  private findRegion(
+    regionName: string
+  ): d3.HierarchyNode<NodeData> | undefined {
+    return this.root
+      ?.descendants()
+      .find((d) => d.depth > 0 && d.children && d.data.name === regionName);
+  }
+
+  /**
+   * Returns the node the chart is currently focused on. Falls back to the root node if the focused
+   * region no longer exists in the layout. While a layout is computed, the focus is kept for the
+   * new layout.
+   */
+  private getFocusNode(): d3.HierarchyCircularNode<NodeData> | undefined {
+    if (this.focusName === null) return this.nodes[0];
+
+    const focus = this.nodes.find(
+      (d) => d.depth > 0 && d.children && d.data.name === this.focusName
+    );
+    if (!focus) {
+      if (!this.isLayoutPending) this.focusName = null;
+      return this.nodes[0];
+    }
+    return focus;
+  }
+
+  /**
+   * Moves the camera to the given node, optionally animating the transition. Labels are re-fitted
+   * to the zoomed circle sizes once the camera has settled.
+   *
+   * @param node - The node to focus on (root node shows the whole chart)
+   * @param animate - Whether to animate the camera transition
+   */
+  private zoomTo(
+    node: d3.HierarchyCircularNode<NodeData> | undefined,
+    animate: boolean
+  ): void {
+    if (!this.group || !node) return;
+
+    const target: ZoomView =
+      node.depth === 0
+        ? [
+            this.packWidth / 2,
+            this.packHeight / 2,
+            Math.min(this.packWidth, this.packHeight),
+          ]
+        : [node.x, node.y, node.r * 2 * 1.05];
+
+    this.group
+      .selectAll<SVGGElement, d3.HierarchyCircularNode<NodeData>>('g.node')
+      .classed('focused', (d) => d === node);
+
+    if (!animate || this.view[2] === 0) {
+      this.group.interrupt('zoom');
+      this.applyView(target);
+      this.refitLabels();
+      return;
+    }
+
+    const interpolate = d3.interpolateZoom(this.view, target);
+
+    this.group
+      .transition('zoom')
+      .duration(750)
+      .tween('zoom', () => (t) => this.applyView(interpolate(t)))
+      .on('end', () => this.refitLabels());
+  }
+
+  /**
+   * Applies a camera view to the main group.
+   *
+   * @param view - The view to apply
+   */
+  private applyView(view: ZoomView): void {
+    if (!this.group) return;
+
+    this.view = view;
+    const k = this.getZoomScale();
+    const translateX = this.packWidth / 2 - view[0] * k;
+    const translateY = this.packHeight / 2 - view[1] * k;
+
+    this.group.attr(
+      'transform',
+      `translate(${translateX},${translateY}) scale(${k})`
+    );
+    this.canvasRenderer?.setView(translateX, translateY, k);
+  }
+
+  /**
+   * Returns the scale factor of the current camera view.
+   */
+  private getZoomScale(): number {
+    if (this.view[2] === 0) return 1;
+    return Math.min(this.packWidth, this.packHeight) / this.view[2];
+  }
+
+  /**
+   * Re-fits the leaf node labels to the on-screen circle sizes at the current zoom level.
+   */
+  private refitLabels(): void {
+    if (!this.group) return;
+
+    this.addTextLabels(
+      this.group.selectAll<d3.BaseType, d3.HierarchyCircularNode<NodeData>>(
+        'g.country-node'
+      ),
+      this.getZoomScale()
+    );
   }
 
   /**
@@ -589,22 +1616,27 @@ export class CircularPackChart {
       d3.HierarchyCircularNode<NodeData>,
       SVGGElement | null,
       unknown
-    >
+    >,
+    scale: number = 1
   ): void {
     selection.each(function (d) {
       // Remove existing text elements first
       d3.select(this).selectAll('text').remove();
+
+      // Labels are fitted to the on-screen radius, then scaled back down into the zoomed group
+      const radius = d.r * scale;
+      const fontSize = Math.max(8, radius / 4);
+      const maxWidth = radius * 1.6;
+
       const textElement = d3
         .select(this)
         .append('text')
         .attr('dy', '0.3em')
         .style('text-anchor', 'middle')
-        .style('font-size', `${Math.max(8, d.r / 4)}px`)
-        .style('fill', '#333')
+        .style('font-size', `${fontSize / scale}px`)
+        .style('fill', 'var(--chart-text)')
         .style('pointer-events', 'none');
 
-      const fontSize = Math.max(8, d.r / 4);
-      const maxWidth = d.r * 1.6;
       const words = d.data.name.split(' ');
 
       if (words.length === 1) {
@@ -613,7 +1645,7 @@ export class CircularPackChart {
           words[0],
           maxWidth,
           fontSize,
-          d.r
+          radius
         );
         textElement.text(processedText);
       } else {
@@ -626,7 +1658,7 @@ export class CircularPackChart {
             word,
             maxWidth,
             fontSize,
-            d.r
+            radius
           );
 
           // If the word was truncated (contains '...'), add it and stop processing
@@ -661,7 +1693,7 @@ export class CircularPackChart {
               lastLine,
               maxWidth,
               fontSize,
-              d.r,
+              radius,
               true
             );
           }
@@ -742,286 +1774,4 @@ export class CircularPackChart {
     context.font = `${fontSize}px sans-serif`;
     return context.measureText(text).width;
   }
-
-  /**
-   * Positions the region circles within its parent container.
-   *
-   * @param packWidth - Width of the circular pack element
-   * @param packHeight - Height of the circular pack element
-   */
-  private positionRegionCircles(packWidth: number, packHeight: number): void {
-    if (!this.nodes || this.nodes.length === 0) return;
-
-    const regionNodes = this.nodes.filter((d) => d.depth === 1);
-    if (regionNodes.length === 0) return;
-
-    const centreX = packWidth / 2;
-    const centreY = packHeight / 2;
-
-    // Geographic quadrant assignments for each of the four region circles
-    const quadrants: { [key: string]: string } = {
-      'Northern Europe': 'top',
-      'Western Europe': 'left',
-      'Eastern Europe': 'right',
-      'Southern Europe': 'bottom',
-    };
-
-    // Store original positions for child offset calculations
-    const originalPositions = new Map();
-    regionNodes.forEach((regionNode) => {
-      originalPositions.set(regionNode, {
-        x: regionNode.x || centreX,
-        y: regionNode.y || centreY,
-      });
-    });
-
-    // Calculate optimal positions for the four region circles
-    const positions = this.calculateOptimalPositions(
-      regionNodes,
-      packWidth,
-      packHeight,
-      quadrants
-    );
-
-    // Apply new positions and update child nodes
-    regionNodes.forEach((regionNode) => {
-      if (
-        regionNode.data &&
-        regionNode.data.name &&
-        positions.has(regionNode.data.name)
-      ) {
-        const original = originalPositions.get(regionNode);
-        const newPos = positions.get(regionNode.data.name);
-
-        if (!newPos) {
-          throw new Error('Node position could not be calculated');
-        }
-
-        // Update region circle position
-        regionNode.x = newPos.x;
-        regionNode.y = newPos.y;
-
-        // Update all child nodes to maintain their relative positions within parent circle
-        const childNodes = this.nodes.filter(
-          (d) => d.depth > 1 && this.isDescendantOf(d, regionNode)
-        );
-
-        childNodes.forEach((childNode) => {
-          if (childNode.x !== undefined && childNode.y !== undefined) {
-            const offsetX = childNode.x - original.x;
-            const offsetY = childNode.y - original.y;
-            childNode.x = newPos.x + offsetX;
-            childNode.y = newPos.y + offsetY;
-          }
-        });
-      }
-    });
-  }
-
-  /**
-   * Helper algorithm to calculate the optimal positions for the four region circles within their
-   * parent container.
-   *
-   * @remarks
-   * Algorithm assigns each region circle to a quadrant based on geographical logic, then optimises
-   * its position by calculating repulsion forces between each pair of circles based on the distance
-   * between the two circles and the size of each circle (larger = stronger repulsion).
-   * @param regionNodes - Array containing data of the child nodes in each quadrant
-   * @param packWidth - Width of the circular pack element
-   * @param packHeight - Height of the circular pack element
-   * @param quadrants - Mapping of quadrants to positions
-   * @returns Object specifying final centre coordinates for each of the four region circles
-   */
-  private calculateOptimalPositions(
-    regionNodes: any[],
-    packWidth: number,
-    packHeight: number,
-    quadrants: { [key: string]: string }
-  ): Map<string, { x: number; y: number }> {
-    const centreX = packWidth / 2;
-    const centreY = packHeight / 2;
-
-    // Define quadrant type
-    type QuadrantName = 'top' | 'bottom' | 'left' | 'right';
-
-    // Create region info with constraints
-    const regions = regionNodes.map((node) => ({
-      name: node.data.name,
-      radius: node.r || 0,
-      quadrant: quadrants[node.data.name] as QuadrantName,
-      node: node,
-    }));
-
-    // Initial positioning in quadrants
-    const margin = 20; // Safety margin from edge of parent container
-    const positions = new Map<string, { x: number; y: number }>();
-
-    // Calculate available space for each quadrant: quadrants start with a default centre coordinate
-    // for the circle, and min and max X and Y coordinates are calculated based on the safety margin
-    // from the container edge. This generates boundary limits within which each circle can
-    // potentially be positioned.
-    const quadrantBounds: Record<
-      QuadrantName,
-      {
-        centerX: number;
-        centerY: number;
-        maxX: number;
-        maxY: number;
-        minX: number;
-        minY: number;
-      }
-    > = {
-      top: {
-        centerX: centreX,
-        centerY: centreY * 0.5,
-        maxX: packWidth - margin,
-        maxY: centreY - margin,
-        minX: margin,
-        minY: margin,
-      },
-      bottom: {
-        centerX: centreX,
-        centerY: centreY * 1.5,
-        maxX: packWidth - margin,
-        maxY: packHeight - margin,
-        minX: margin,
-        minY: centreY + margin,
-      },
-      left: {
-        centerX: centreX * 0.5,
-        centerY: centreY,
-        maxX: centreX - margin,
-        maxY: packHeight - margin,
-        minX: margin,
-        minY: margin,
-      },
-      right: {
-        centerX: centreX * 1.5,
-        centerY: centreY,
-        maxX: packWidth - margin,
-        maxY: packHeight - margin,
-        minX: centreX + margin,
-        minY: margin,
-      },
-    };
-
-    // Initial default position for each circle (centre of quadrant)
-    regions.forEach((region) => {
-      const bounds = quadrantBounds[region.quadrant];
-      positions.set(region.name, {
-        x: bounds.centerX,
-        y: bounds.centerY,
-      });
-    });
-
-    // Optimisation to maximise distances between circles while respecting quadrant boundaries
-    const maxIterations = 50;
-    const forceStrength = 2.0; // Ampilifies how aggressively circles repel on each iteration
-
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
-      let totalMovement = 0;
-      const forces = new Map<string, { fx: number; fy: number }>();
-
-      // Initialise forces that will act on the circles to move them
-      regions.forEach((region) => {
-        forces.set(region.name, { fx: 0, fy: 0 });
-      });
-
-      // Compare every region circle with every other circle, and calculate repulsion forces between
-      // each pair: if circles are too close, force is applied to push them apart; larger circles
-      // (larger radius) exert stronger forces to push circles further apart
-      for (let i = 0; i < regions.length; i++) {
-        for (let j = i + 1; j < regions.length; j++) {
-          const region1 = regions[i];
-          const region2 = regions[j];
-
-          const pos1 = positions.get(region1.name)!;
-          const pos2 = positions.get(region2.name)!;
-
-          const dx = pos1.x - pos2.x; // Horizontal distance between the two centres
-          const dy = pos1.y - pos2.y; // Vertical distance between the two centres
-          const distance = Math.sqrt(dx * dx + dy * dy); // Euclidean distance between the two
-
-          if (distance > 0) {
-            // Set how far apart the two circles should go
-            const bufferDist = 30;
-            const requiredDistance =
-              region1.radius + region2.radius + bufferDist;
-
-            // Normalised repulsion strength between circles: ranges from 0 (circles are far apart
-            // enough) to 1 ()
-            const force = Math.max(0, requiredDistance - distance) / distance;
-
-            // Convert force to directional components
-            // Divide by 2 as each circle moves half the total distance to shift
-            const fx = (dx * force * forceStrength) / 2;
-            const fy = (dy * force * forceStrength) / 2;
-
-            const force1 = forces.get(region1.name)!;
-            const force2 = forces.get(region2.name)!;
-
-            force1.fx += fx; // Horizontal movement for first circle
-            force1.fy += fy; // Vertical movement for first circle
-            force2.fx -= fx; // Horizontal movement for second circle
-            force2.fy -= fy; // Vertical movement for second circle
-          }
-        }
-      }
-
-      // Apply forces whilst constraining circles to their quadrants
-      regions.forEach((region) => {
-        const currentPos = positions.get(region.name)!;
-        const force = forces.get(region.name)!;
-        const bounds = quadrantBounds[region.quadrant];
-
-        // Apply force to get updated circle position
-        let newX = currentPos.x + force.fx;
-        let newY = currentPos.y + force.fy;
-
-        // Constrain to boundary limits, accounting for circle radiuses
-        const paddingDist = 5; // Ensures circle does not touch parent container edge
-        const effectiveRadius = region.radius + paddingDist;
-        newX = Math.max(
-          bounds.minX + effectiveRadius,
-          Math.min(bounds.maxX - effectiveRadius, newX)
-        );
-        newY = Math.max(
-          bounds.minY + effectiveRadius,
-          Math.min(bounds.maxY - effectiveRadius, newY)
-        );
-
-        // Update the position of the circle
-        positions.set(region.name, { x: newX, y: newY });
-
-        // Track distance circles have moved in this iteration
-        const movement =
-          Math.abs(newX - currentPos.x) + Math.abs(newY - currentPos.y);
-        totalMovement += movement;
-      });
-
-      // Check for convergence - when movement approaches stopping, break
-      if (totalMovement < 1) {
-        break;
-      }
-    }
-
-    return positions;
-  }
-
-  /**
-   * Helper function to check if a node is a child of another node.
-   * @param node - The node element to check
-   * @param ancestor - The node to check against
-   * @returns True if node being checked is a child node, false otherwise
-   */
-  private isDescendantOf(node: any, ancestor: any): boolean {
-    let current = node.parent;
-    while (current) {
-      if (current === ancestor) {
-        return true;
-      }
-      current = current.parent;
-    }
-    return false;
-  }
 }
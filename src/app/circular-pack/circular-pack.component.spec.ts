@@ -0,0 +1,835 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import axe from 'axe-core';
+import * as d3 from 'd3';
+import { ChartFilter, NodeData } from '../shared/types';
+import { EMPTY_FILTER } from '../utils/filter-data';
+import { CircularPackComponent } from './circular-pack.component';
+
+const EUROPE = {
+  Europe: {
+    'Northern Europe': [
+      {
+        country: 'Denmark',
+        population: 5900000,
+        land_area_km2: 42900,
+        latitude: 56,
+        longitude: 10,
+      },
+      {
+        country: 'Norway',
+        population: 5500000,
+        land_area_km2: 365000,
+        latitude: 64,
+        longitude: 12,
+      },
+    ],
+    'Southern Europe': [
+      {
+        country: 'Italy',
+        population: 59000000,
+        land_area_km2: 295700,
+        latitude: 42.8,
+        longitude: 12.6,
+      },
+    ],
+  },
+};
+
+type PackNode = d3.HierarchyCircularNode<NodeData>;
+
+@Component({
+  imports: [CircularPackComponent],
+  template: `
+    <app-circular-pack
+      id="a"
+      layout="sync"
+      [data]="data"
+      [width]="400"
+      [height]="300"
+    />
+    <app-circular-pack
+      id="b"
+      layout="sync"
+      [data]="data"
+      [width]="400"
+      [height]="300"
+    />
+  `,
+})
+class TwoChartsHost {
+  data: unknown = EUROPE;
+}
+
+@Component({
+  imports: [CircularPackComponent],
+  template: `
+    <app-circular-pack
+      layout="sync"
+      [syncUrl]="true"
+      [data]="data"
+      [filter]="filter"
+      [width]="400"
+      [height]="300"
+    />
+  `,
+})
+class SyncedUrlHost {
+  data = EUROPE;
+  filter: ChartFilter = EMPTY_FILTER;
+}
+
+// Lays the chart out in a Web Worker, as the demo app does
+@Component({
+  imports: [CircularPackComponent],
+  template: `
+    <app-circular-pack
+      [syncUrl]="true"
+      [data]="data"
+      [width]="400"
+      [height]="300"
+    />
+  `,
+})
+class WorkerSyncedUrlHost {
+  data = EUROPE;
+}
+
+describe('CircularPackComponent', () => {
+  let fixture: ComponentFixture<TwoChartsHost>;
+  let chartA: HTMLElement;
+  let chartB: HTMLElement;
+
+  const click = (element: Element | null) =>
+    element?.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  const press = (element: Element | null, key: string, shiftKey = false) =>
+    element?.dispatchEvent(
+      new KeyboardEvent('keydown', { key, shiftKey, bubbles: true })
+    );
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TwoChartsHost],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(TwoChartsHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    chartA = fixture.nativeElement.querySelector('#a');
+    chartB = fixture.nativeElement.querySelector('#b');
+  });
+
+  it('should render each chart with its own nodes and tooltip', () => {
+    for (const chart of [chartA, chartB]) {
+      expect(chart.querySelectorAll('.country-node').length).toBe(3);
+      expect(chart.querySelectorAll('.tooltip').length).toBe(1);
+    }
+  });
+
+  it('should open the drawer only in the clicked chart', () => {
+    click(chartA.querySelector('.country-node'));
+
+    expect(chartA.querySelector('.drawer')).not.toBeNull();
+    expect(chartB.querySelector('.drawer')).toBeNull();
+  });
+
+  it('should keep the selected metric separate for each chart', () => {
+    click(chartA.querySelectorAll('.toggle-segment')[1]);
+
+    const activeLabel = (chart: HTMLElement) =>
+      chart.querySelector('.toggle-label.active')?.textContent;
+    expect(activeLabel(chartA)).toBe('Population');
+    expect(activeLabel(chartB)).toBe('Land Area');
+  });
+
+  it('should transition the existing nodes when the metric changes', () => {
+    const nodesBefore = Array.from(chartA.querySelectorAll('.node'));
+
+    click(chartA.querySelectorAll('.toggle-segment')[1]);
+
+    const nodesAfter = Array.from(chartA.querySelectorAll('.node'));
+    expect(nodesAfter.length).toBe(nodesBefore.length);
+    nodesBefore.forEach((node) => expect(nodesAfter).toContain(node));
+  });
+
+  describe('accessibility', () => {
+    it('should have no detectable accessibility violations', async () => {
+      const results = await axe.run(chartA);
+
+      expect(results.violations.map((violation) => violation.id)).toEqual([]);
+    });
+
+    it('should keep a single node in the tab order', () => {
+      expect(chartA.querySelectorAll('.node[tabindex="0"]').length).toBe(1);
+    });
+
+    it('should move the focus through the hierarchy with the arrow keys', () => {
+      const region = chartA.querySelector<SVGGElement>('.node[tabindex="0"]')!;
+      region.focus();
+
+      press(region, 'ArrowRight');
+      const country = document.activeElement;
+      expect(country?.classList).toContain('country-node');
+      expect(country?.getAttribute('tabindex')).toBe('0');
+      expect(region.getAttribute('tabindex')).toBe('-1');
+
+      press(country, 'ArrowLeft');
+      expect(document.activeElement).toBe(region);
+    });
+
+    it('should announce the name and metric values of each node', () => {
+      const country = chartA.querySelector('.country-node');
+
+      expect(country?.getAttribute('role')).toBe('treeitem');
+      expect(country?.getAttribute('aria-label')).toContain('Land Area:');
+    });
+
+    it('should open the drawer with Enter and keep the focus within it', () => {
+      const country = chartA.querySelector<SVGGElement>('.country-node')!;
+      country.focus();
+      press(country, 'Enter');
+
+      const close = chartA.querySelector('.drawer-close');
+      expect(chartA.querySelector('.drawer')?.getAttribute('role')).toBe(
+        'dialog'
+      );
+      expect(document.activeElement).toBe(close);
+
+      press(close, 'Tab', true);
+      expect(document.activeElement).toBe(close);
+    });
+
+    it('should select metrics with the arrow keys on the toggle', () => {
+      const checked = () =>
+        chartA.querySelector('.toggle-segment[aria-checked="true"]');
+      const segment = checked() as SVGRectElement;
+      segment.focus();
+
+      press(segment, 'ArrowRight');
+
+      expect(checked()?.getAttribute('aria-label')).toBe('Population');
+      expect(document.activeElement).toBe(checked());
+    });
+  });
+
+  describe('table view', () => {
+    const tableRows = () =>
+      Array.from(
+        chartA.querySelectorAll<HTMLElement>('app-data-table tbody tr')
+      );
+
+    beforeEach(() => {
+      chartA.querySelector<HTMLButtonElement>('.view-controls button')!.click();
+      fixture.detectChanges();
+    });
+
+    it('should list the countries sorted by the current metric', () => {
+      expect(
+        tableRows().map((row) => row.querySelector('th')?.textContent?.trim())
+      ).toEqual(['Norway', 'Italy', 'Denmark']);
+      expect(chartB.querySelector('app-data-table')).toBeNull();
+    });
+
+    it('should follow the metric selected in the chart', () => {
+      click(chartA.querySelectorAll('.toggle-segment')[1]);
+      fixture.detectChanges();
+
+      expect(tableRows()[0].querySelector('th')?.textContent?.trim()).toBe(
+        'Italy'
+      );
+    });
+
+    it('should open the drawer and highlight the selected row', () => {
+      tableRows()[1].querySelector('button')!.click();
+      fixture.detectChanges();
+
+      expect(chartA.querySelector('.drawer h2')?.textContent).toBe('Italy');
+      expect(tableRows()[1].classList).toContain('selected');
+    });
+  });
+
+  describe('search', () => {
+    const search = (query: string) => {
+      const input = chartA.querySelector<HTMLInputElement>('.search input')!;
+      input.value = query;
+      input.dispatchEvent(new Event('input'));
+      fixture.detectChanges();
+      return input;
+    };
+
+    it('should list matches and dim the other nodes', () => {
+      search('ITÄL');
+
+      const results = chartA.querySelectorAll('.search-results li');
+      expect(results.length).toBe(1);
+      expect(results[0].textContent).toContain('Italy');
+      expect(
+        chartA.querySelector('.node.highlighted')?.getAttribute('aria-label')
+      ).toContain('Italy');
+      expect(chartA.querySelectorAll('.country-node.dimmed').length).toBe(2);
+      expect(chartB.querySelector('.node.dimmed')).toBeNull();
+    });
+
+    it('should zoom to the selected country and open its drawer', () => {
+      const input = search('denm');
+      press(input, 'Enter');
+      fixture.detectChanges();
+
+      expect(
+        chartA.querySelector('.region-node.focused')?.getAttribute('aria-label')
+      ).toContain('Northern Europe');
+      expect(chartA.querySelector('.drawer h2')?.textContent).toBe('Denmark');
+      expect(chartA.querySelector('.search-results')).toBeNull();
+    });
+  });
+
+  describe('filters', () => {
+    beforeEach(() => {
+      const filtersButton = Array.from(
+        chartA.querySelectorAll<HTMLButtonElement>('.view-controls button')
+      ).find((button) => button.textContent?.includes('Filters'))!;
+      filtersButton.click();
+      fixture.detectChanges();
+    });
+
+    it('should re-layout the chart on just the matching countries', async () => {
+      const minPopulation = chartA.querySelectorAll<HTMLInputElement>(
+        'app-filter-panel input[type="number"]'
+      )[2];
+      minPopulation.value = '10000000';
+      minPopulation.dispatchEvent(new Event('change'));
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      expect(
+        chartA.querySelectorAll('.country-node:not(.exiting)').length
+      ).toBe(1);
+      expect(chartA.querySelector('.filter-summary')?.textContent).toContain(
+        '1 of 3 countries shown'
+      );
+      expect(chartB.querySelectorAll('.country-node').length).toBe(3);
+    });
+
+    it('should not play the audio summary with every country filtered out', async () => {
+      const minPopulation = chartA.querySelectorAll<HTMLInputElement>(
+        'app-filter-panel input[type="number"]'
+      )[2];
+      minPopulation.value = '1000000000';
+      minPopulation.dispatchEvent(new Event('change'));
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      const audioButton = Array.from(
+        chartA.querySelectorAll<HTMLButtonElement>('.view-controls button')
+      ).find((button) => button.textContent?.includes('Audio summary'))!;
+      audioButton.click();
+      fixture.detectChanges();
+
+      expect(audioButton.textContent?.trim()).toBe('Audio summary');
+      expect(audioButton.getAttribute('aria-pressed')).toBe('false');
+      expect(chartA.querySelector('p.visually-hidden')?.textContent).toBe(
+        'No countries to play'
+      );
+    });
+
+    it('should hide the unchecked regions', () => {
+      const region = chartA.querySelector<HTMLInputElement>(
+        'app-filter-panel input[type="checkbox"]'
+      )!;
+      region.click();
+      fixture.detectChanges();
+
+      expect(chartA.querySelectorAll('.region-node:not(.exiting)').length).toBe(
+        1
+      );
+    });
+  });
+
+  describe('file drop', () => {
+    // The files are given as they are, rather than copied by a DataTransfer
+    const drop = (file: File) => {
+      const event = new DragEvent('drop', { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'dataTransfer', {
+        value: { files: [file] },
+      });
+      chartA.querySelector('.svg-container')!.dispatchEvent(event);
+    };
+
+    const waitForCountries = async (countries: number) => {
+      for (let i = 0; i < 50; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        fixture.detectChanges();
+        const drawn = chartA.querySelectorAll('.country-node:not(.exiting)');
+        if (drawn.length === countries) return;
+      }
+    };
+
+    it('should load a dropped CSV file with the default mapping', async () => {
+      drop(
+        new File(
+          [
+            'region,country,population,land_area_km2\n',
+            'Northern Europe,Norway,5500000,365000\n',
+            'Southern Europe,Italy,59000000,295700\n',
+            'Southern Europe,Spain,48000000,499000\n',
+            'Western Europe,France,68000000,549000\n',
+          ],
+          'countries.csv',
+          { type: 'text/csv' }
+        )
+      );
+      await waitForCountries(4);
+
+      expect(chartA.querySelector('.chart-error')).toBeNull();
+      expect(chartA.querySelectorAll('.region-node:not(.exiting)').length).toBe(
+        3
+      );
+      expect(chartB.querySelectorAll('.country-node').length).toBe(3);
+    });
+
+    it('should ignore a file that finishes loading after a newer one', async () => {
+      let finishSlowFile = (_text: string) => {};
+      const slowFile = new File([], 'slow.json');
+      slowFile.text = () =>
+        new Promise((resolve) => (finishSlowFile = resolve));
+
+      drop(slowFile);
+      drop(
+        new File(
+          ['region,country,population,land_area_km2\n', 'North,Norway,1,1\n'],
+          'countries.csv'
+        )
+      );
+      await waitForCountries(1);
+      finishSlowFile(JSON.stringify(EUROPE));
+      await waitForCountries(3);
+
+      expect(
+        chartA.querySelectorAll('.country-node:not(.exiting)').length
+      ).toBe(1);
+    });
+  });
+
+  describe('years', () => {
+    beforeEach(async () => {
+      fixture.componentInstance.data = {
+        Europe: {
+          'Northern Europe': [
+            { country: 'Norway', population: { 1990: 4.2, 2020: 5.5 } },
+            { country: 'Estonia', population: { 2020: 1.3 } },
+          ],
+        },
+      };
+      fixture.detectChanges();
+      await fixture.whenStable();
+      fixture.detectChanges();
+    });
+
+    it('should show the latest year', () => {
+      expect(chartA.querySelector('.year-controls output')?.textContent).toBe(
+        '2020'
+      );
+      expect(chartA.querySelectorAll('.country-node').length).toBe(2);
+    });
+
+    it('should animate the existing nodes to the picked year', () => {
+      const nodesBefore = Array.from(chartA.querySelectorAll('.node'));
+      const slider = chartA.querySelector<HTMLInputElement>(
+        '.year-controls input[type="range"]'
+      )!;
+      slider.value = '0';
+      slider.dispatchEvent(new Event('input'));
+      fixture.detectChanges();
+
+      expect(chartA.querySelector('.year-controls output')?.textContent).toBe(
+        '1990'
+      );
+      // Estonia has no value in 1990, so it shrinks away
+      const estonia = Array.from(chartA.querySelectorAll('.country-node'))
+        .map((node) => d3.select(node).datum() as PackNode)
+        .find((d) => d.data.name === 'Estonia')!;
+      expect(estonia.r).toBe(0);
+      expect(Array.from(chartA.querySelectorAll('.node'))).toEqual(nodesBefore);
+    });
+  });
+
+  describe('region summary', () => {
+    const regionNode = (name: string) =>
+      Array.from(chartA.querySelectorAll('.region-node')).find(
+        (node) => (d3.select(node).datum() as PackNode).data.name === name
+      )!;
+
+    beforeEach(() => {
+      click(regionNode('Northern Europe'));
+      fixture.detectChanges();
+    });
+
+    it('should summarise the selected region', () => {
+      const summary = chartA.querySelector('app-region-summary')!;
+
+      expect(summary.querySelector('h2')?.textContent).toBe('Northern Europe');
+      expect(summary.querySelector('p')?.textContent).toContain('2 countries');
+      expect(summary.querySelector('tbody td')?.textContent).toBe(
+        '407,900 km²'
+      );
+      expect(
+        Array.from(summary.querySelectorAll('.share-name')).map(
+          (name) => name.textContent
+        )
+      ).toEqual(['Norway', 'Denmark']);
+      expect(chartB.querySelector('app-region-summary')).toBeNull();
+    });
+
+    it('should open the drawer of a country in the summary', () => {
+      chartA.querySelector<HTMLButtonElement>('.shares button')!.click();
+
+      expect(chartA.querySelector('.drawer h2')?.textContent).toBe('Norway');
+    });
+
+    it('should hide the summary when zoomed out', () => {
+      click(regionNode('Northern Europe'));
+      fixture.detectChanges();
+
+      expect(chartA.querySelector('app-region-summary')).toBeNull();
+    });
+  });
+
+  describe('compare', () => {
+    const shiftClick = (element: Element | null) =>
+      element?.dispatchEvent(
+        new MouseEvent('click', { shiftKey: true, bubbles: true })
+      );
+    const countryNode = (name: string) =>
+      Array.from(chartA.querySelectorAll('.country-node')).find(
+        (node) => (d3.select(node).datum() as PackNode).data.name === name
+      )!;
+    const columns = () =>
+      Array.from(
+        chartA.querySelectorAll('.comparison-table thead th:not(:first-child)')
+      ).map((th) => th.textContent);
+
+    it('should compare the open country with the shift-clicked ones', () => {
+      click(countryNode('Norway'));
+      shiftClick(countryNode('Italy'));
+
+      expect(chartA.querySelector('.drawer h2')?.textContent).toBe(
+        'Comparison'
+      );
+      expect(columns()).toEqual(['Norway', 'Italy']);
+      expect(
+        chartA.querySelectorAll('.comparison-table .comparison-circle').length
+      ).toBeGreaterThan(0);
+      // Ratios are relative to Norway, the first pick
+      expect(
+        chartA.querySelector('.comparison-table .comparison-ratio')?.textContent
+      ).toBe('×0.81');
+    });
+
+    it('should remove countries from the comparison', () => {
+      shiftClick(countryNode('Denmark'));
+      shiftClick(countryNode('Italy'));
+
+      chartA
+        .querySelector<HTMLButtonElement>('[aria-label="Remove Denmark"]')!
+        .click();
+      expect(columns()).toEqual(['Italy']);
+
+      chartA
+        .querySelector<HTMLButtonElement>('[aria-label="Remove Italy"]')!
+        .click();
+      expect(
+        chartA.querySelector<HTMLElement>('.drawer')?.style.transform
+      ).toBe('translateX(100%)');
+    });
+
+    it('should show a single country again on a plain click', () => {
+      shiftClick(countryNode('Denmark'));
+      shiftClick(countryNode('Italy'));
+      click(countryNode('Norway'));
+
+      expect(chartA.querySelector('.drawer h2')?.textContent).toBe('Norway');
+      expect(chartA.querySelector('.comparison-table')).toBeNull();
+    });
+
+    it('should leave the countries the filter hides out of the comparison', () => {
+      shiftClick(countryNode('Denmark'));
+      shiftClick(countryNode('Italy'));
+
+      const filtersButton = Array.from(
+        chartA.querySelectorAll<HTMLButtonElement>('.view-controls button')
+      ).find((button) => button.textContent?.includes('Filters'))!;
+      filtersButton.click();
+      fixture.detectChanges();
+      // Hides Northern Europe
+      chartA
+        .querySelector<HTMLInputElement>(
+          'app-filter-panel input[type="checkbox"]'
+        )!
+        .click();
+      fixture.detectChanges();
+
+      expect(columns()).toEqual(['Italy']);
+      expect(chartA.querySelector('[aria-label="Remove Denmark"]')).toBeNull();
+    });
+  });
+
+  describe('themes', () => {
+    const pickTheme = (value: string) => {
+      const select = chartA.querySelector<HTMLSelectElement>(
+        'select[aria-label="Theme"]'
+      )!;
+      select.value = value;
+      select.dispatchEvent(new Event('change'));
+      fixture.detectChanges();
+    };
+    // The theme's colours are set on the host element of each chart
+    const background = (chart: HTMLElement) =>
+      chart.style.getPropertyValue('--chart-background');
+
+    it('should switch the theme without laying out the chart again', () => {
+      const positions = () =>
+        Array.from(chartA.querySelectorAll('.node')).map((node) =>
+          node.getAttribute('transform')
+        );
+      const before = positions();
+      const otherBackground = background(chartB);
+
+      pickTheme('dark');
+
+      expect(background(chartA)).toBe('#1e1e1e');
+      expect(
+        chartA
+          .querySelector('.country-node circle')
+          ?.getAttribute('fill-opacity')
+      ).toBe('0.55');
+      expect(positions()).toEqual(before);
+      // The other chart keeps its own theme
+      expect(background(chartB)).toBe(otherBackground);
+    });
+
+    it('should draw the circles with the palette of the theme', () => {
+      pickTheme('high-contrast');
+
+      expect(chartA.style.getPropertyValue('--chart-text')).toBe('#ffffff');
+      expect(
+        chartA.querySelector('.region-node circle')?.getAttribute('fill')
+      ).not.toBe(
+        chartB.querySelector('.region-node circle')?.getAttribute('fill')
+      );
+    });
+  });
+
+  describe('colours', () => {
+    beforeEach(() => {
+      const coloursButton = Array.from(
+        chartA.querySelectorAll<HTMLButtonElement>('.view-controls button')
+      ).find((button) => button.textContent?.includes('Colours'))!;
+      coloursButton.click();
+      fixture.detectChanges();
+    });
+
+    const panel = () => chartA.querySelector('.colour-panel')!;
+
+    it('should fill the countries with the pattern of their region', () => {
+      const checkbox = Array.from(panel().querySelectorAll('label'))
+        .find((label) => label.textContent?.includes('Pattern fills'))!
+        .querySelector('input')!;
+      checkbox.click();
+      fixture.detectChanges();
+
+      const fill = chartA
+        .querySelector('.country-node circle')
+        ?.getAttribute('fill');
+      expect(fill).toMatch(/^url\(#chart-\d+-pattern-\d+\)$/);
+      expect(chartA.querySelector(`pattern${fill?.slice(4, -1)}`)).toBeTruthy();
+      // The other chart keeps its plain fills
+      expect(
+        chartB.querySelector('.country-node circle')?.getAttribute('fill')
+      ).not.toContain('url(');
+    });
+
+    it('should draw the regions with a colour-blind-safe palette', () => {
+      const regionFill = () =>
+        chartA.querySelector('.region-node circle')?.getAttribute('fill');
+      const before = regionFill();
+
+      const radio = Array.from(panel().querySelectorAll('label'))
+        .find((label) => label.textContent?.includes('Okabe-Ito'))!
+        .querySelector('input')!;
+      radio.click();
+      fixture.detectChanges();
+
+      expect(regionFill()).not.toBe(before);
+    });
+
+    it('should preview a simulated colour vision in dev mode', () => {
+      const select = panel().querySelector('select')!;
+      select.value = 'achromatopsia';
+      select.dispatchEvent(new Event('change'));
+      fixture.detectChanges();
+
+      const container = chartA.querySelector<HTMLElement>('.d3-circular-pack')!;
+      expect(container.style.filter).toContain('colour-vision');
+      expect(chartA.querySelector('feColorMatrix')).toBeTruthy();
+    });
+  });
+
+  describe('map layout', () => {
+    const nodeData = (chart: HTMLElement, name: string) =>
+      Array.from(chart.querySelectorAll('.node'))
+        .map((node) => d3.select(node).datum() as PackNode)
+        .find((d) => d.data.name === name)!;
+
+    beforeEach(() => {
+      const mapButton = Array.from(
+        chartA.querySelectorAll<HTMLButtonElement>('.view-controls button')
+      ).find((button) => button.textContent?.includes('Map layout'))!;
+      mapButton.click();
+      fixture.detectChanges();
+    });
+
+    it('should move the existing nodes to their coordinates', () => {
+      expect(nodeData(chartA, 'Norway').y).toBeLessThan(
+        nodeData(chartA, 'Italy').y
+      );
+      expect(chartA.querySelectorAll('.country-node').length).toBe(3);
+    });
+
+    it('should only change the layout of its own chart', () => {
+      expect(
+        chartA.querySelector('.view-controls [aria-pressed="true"]')
+          ?.textContent
+      ).toContain('Map layout');
+      expect(
+        chartB.querySelector('.view-controls [aria-pressed="true"]')
+      ).toBeNull();
+    });
+  });
+});
+
+describe('CircularPackComponent with the URL synced', () => {
+  let fixture: ComponentFixture<SyncedUrlHost>;
+  let router: Router;
+  let chart: HTMLElement;
+
+  const activeLabel = () =>
+    chart.querySelector('.toggle-label.active')?.textContent;
+  const focusedName = () => {
+    const node = chart.querySelector('.node.focused');
+    return node ? (d3.select(node).datum() as PackNode).data.name : null;
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SyncedUrlHost],
+      providers: [provideRouter([])],
+    }).compileComponents();
+
+    router = TestBed.inject(Router);
+    await router.navigateByUrl(
+      '/?metric=population&region=Northern%20Europe&country=Norway'
+    );
+
+    fixture = TestBed.createComponent(SyncedUrlHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    chart = fixture.nativeElement.querySelector('app-circular-pack');
+  });
+
+  it('should restore the state from the URL', () => {
+    expect(activeLabel()).toBe('Population');
+    expect(focusedName()).toBe('Northern Europe');
+    expect(chart.querySelector('.drawer h2')?.textContent).toBe('Norway');
+  });
+
+  it('should write the state to the URL', async () => {
+    chart
+      .querySelectorAll('.toggle-segment')[0]
+      .dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    await fixture.whenStable();
+
+    const params = router.parseUrl(router.url).queryParamMap;
+    expect(params.get('metric')).toBe('landAreaKM2');
+    expect(params.get('country')).toBe('Norway');
+  });
+
+  it('should write the filter input to the URL', async () => {
+    fixture.componentInstance.filter = {
+      ranges: {},
+      hiddenGroups: ['Southern Europe'],
+    };
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    const params = router.parseUrl(router.url).queryParamMap;
+    expect(params.getAll('hide')).toEqual(['Southern Europe']);
+  });
+
+  it('should apply the state of later navigations', async () => {
+    await router.navigateByUrl('/?metric=landAreaKM2&region=Southern%20Europe');
+    fixture.detectChanges();
+
+    expect(activeLabel()).toBe('Land Area');
+    expect(focusedName()).toBe('Southern Europe');
+  });
+});
+
+describe('CircularPackComponent URL sync with layouts in a worker', () => {
+  let fixture: ComponentFixture<WorkerSyncedUrlHost>;
+  let router: Router;
+  let chart: HTMLElement;
+
+  const focusedName = () => {
+    const node = chart.querySelector('.node.focused');
+    return node ? (d3.select(node).datum() as PackNode).data.name : null;
+  };
+  /**
+   * Waits until the worker has sent the layout of the latest render and it has been drawn.
+   */
+  const waitForLayout = async (countries: number) => {
+    for (let i = 0; i < 100; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      fixture.detectChanges();
+      const drawn = chart.querySelectorAll('.country-node:not(.exiting)');
+      if (drawn.length === countries) return;
+    }
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WorkerSyncedUrlHost],
+      providers: [provideRouter([])],
+    }).compileComponents();
+
+    router = TestBed.inject(Router);
+    await router.navigateByUrl('/?region=Northern%20Europe');
+
+    fixture = TestBed.createComponent(WorkerSyncedUrlHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    chart = fixture.nativeElement.querySelector('app-circular-pack');
+    await waitForLayout(3);
+  });
+
+  it('should zoom to the region of the URL once the layout is ready', () => {
+    expect(focusedName()).toBe('Northern Europe');
+    expect(chart.querySelector('app-region-summary h2')?.textContent).toContain(
+      'Northern Europe'
+    );
+    expect(router.parseUrl(router.url).queryParamMap.get('region')).toBe(
+      'Northern Europe'
+    );
+  });
+
+  it('should zoom to a region the filter of a later navigation brings back', async () => {
+    await router.navigateByUrl('/?hide=Southern%20Europe');
+    await waitForLayout(2);
+
+    await router.navigateByUrl('/?region=Southern%20Europe');
+    await waitForLayout(3);
+
+    expect(focusedName()).toBe('Southern Europe');
+  });
+});
@@ -5,111 +5,515 @@
 import {
   Component,
   ElementRef,
+  EventEmitter,
+  Input,
+  Output,
   ViewChild,
   AfterViewInit,
+  OnChanges,
   OnDestroy,
+  SimpleChanges,
+  inject,
+  isDevMode,
 } from '@angular/core';
-import { loadData, transformData } from '../utils/process-data';
-import { NodeData } from '../shared/types';
-import { CircularPackChart, ChartConfig } from './chart';
+import { NavigationEnd, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { EUROPE_MAPPING } from '../utils/process-data';
+import { EUROPE_GROUP_PLACEMENT } from '../utils/group-placement';
+import {
+  ChartUrlState,
+  fromQueryParams,
+  isSameUrlState,
+  toQueryParams,
+} from '../utils/url-state';
+import { getSnapshot, getYears } from '../utils/time-series';
+import {
+  MAX_COMPARED_COUNTRIES,
+  addToComparison,
+  removeFromComparison,
+} from '../utils/compare-data';
+import {
+  ChartFilter,
+  ChartTheme,
+  ColourScheme,
+  FlatHierarchyMapping,
+  GroupPlacement,
+  HierarchyMapping,
+  MetricDefinition,
+  MetricKey,
+  NodeData,
+  RecordIssue,
+  ThemeName,
+} from '../shared/types';
+import { MetricRegistry } from '../utils/metrics';
+import {
+  COLOUR_BLIND_SAFE_PALETTES,
+  createColourScale,
+} from '../utils/colours';
+import { ColourVision } from '../utils/colour-vision';
+import { resolveTheme, toCssProperties } from '../utils/themes';
+import {
+  DataSource,
+  DataSourceError,
+  FileDataSource,
+  InlineDataSource,
+  UrlDataSource,
+} from '../utils/data-sources';
+import { formatIssue } from '../utils/validate-data';
+import { Sonifier } from '../utils/sonification';
+import { sortTableRows, toTableRows } from '../utils/table-data';
+import { SearchResult, searchNodes } from '../utils/search';
+import { RegionSummary } from '../utils/region-summary';
+import {
+  EMPTY_FILTER,
+  countLeaves,
+  filterHierarchy,
+  isFilterActive,
+} from '../utils/filter-data';
+import { DataTableComponent } from '../data-table/data-table.component';
+import { FilterPanelComponent } from '../filter-panel/filter-panel.component';
+import { ExportPanelComponent } from '../export-panel/export-panel.component';
+import { RegionSummaryComponent } from '../region-summary/region-summary.component';
+import { ColourPanelComponent } from '../colour-panel/colour-panel.component';
+import { ExportOptions, exportChart, exportData, isDataFormat } from './export';
+import { CircularPackChart, ChartConfig, ChartRenderer } from './chart';
+import { LayoutMode } from './layout-engine';
+import { LayoutType } from './layout';
 import {
   setupToggleInteractions,
   setupCountryClickInteractions,
-  setupDrawerInteractions,
+  setupRegionClickInteractions,
+  setupBackgroundClickInteractions,
+  setupKeyboardInteractions,
 } from './interactions';
 
+// Maximum number of results listed under the search box
+const MAX_SEARCH_RESULTS = 8;
+// Time between the years of the playback, and the duration of the transition between them in ms
+const PLAYBACK_INTERVAL = 1200;
+const PLAYBACK_TRANSITION_DURATION = 1000;
+
+// Used to give the elements of each chart instance unique ids
+let instanceCount = 0;
+
 @Component({
   selector: 'app-circular-pack',
   templateUrl: './circular-pack.component.html',
   styleUrls: ['./circular-pack.component.scss'],
+  imports: [
+    DataTableComponent,
+    FilterPanelComponent,
+    ExportPanelComponent,
+    RegionSummaryComponent,
+    ColourPanelComponent,
+  ],
 })
-export class CircularPackComponent implements AfterViewInit, OnDestroy {
+export class CircularPackComponent
+  implements AfterViewInit, OnChanges, OnDestroy
+{
   @ViewChild('svg', { static: true }) svgRef!: ElementRef<SVGSVGElement>;
   @ViewChild('container', { static: true })
   containerRef!: ElementRef<HTMLDivElement>;
 
+  // Inline data to visualise, takes precedence over the data source when set
+  @Input() data: unknown;
+  @Input() dataSource: DataSource = new UrlDataSource();
+  @Input() mapping: HierarchyMapping | FlatHierarchyMapping = EUROPE_MAPPING;
+  @Input() metrics: MetricRegistry = new MetricRegistry();
+  @Input() valueKey: MetricKey = 'landAreaKM2';
+  @Input() colourScheme?: ColourScheme;
+  // Built-in or custom theme, 'auto' follows the user's preferred colour scheme (light or dark)
+  @Input() theme: ThemeName | 'auto' | ChartTheme = 'auto';
+  // Name of a colour-blind-safe palette replacing the colours of the theme, e.g. 'Okabe-Ito'
+  @Input() colourBlindPalette: string | null = null;
+  // Fills each region's countries with its own pattern, so that regions stay apart in greyscale.
+  // Drawn by the SVG renderer only.
+  @Input() patternFills = false;
+  // Places the top-level groups around the centre by their centroids or in a given order
+  @Input() groupPlacement?: GroupPlacement = EUROPE_GROUP_PLACEMENT;
+  // Packs the countries within their regions, or positions them on a map by their coordinates
+  @Input() layoutType: LayoutType = 'pack';
+  // Year shown of data with values by year, the latest year by default
+  @Input() year?: number;
+  // Limits the chart to the countries within metric ranges and regions
+  @Input() filter: ChartFilter = EMPTY_FILTER;
+  // Draws the nodes on a canvas for large hierarchies, read when the chart is created
+  @Input() renderer: ChartRenderer = 'svg';
+  // Computes layouts in a Web Worker, or synchronously in tests; read when the chart is created
+  @Input() layout: LayoutMode = 'worker';
+  // Fixed chart dimensions in px, otherwise the chart fills the viewport
+  @Input() width?: number;
+  @Input() height?: number;
+  // Keeps the metric, zoom, selected country and filters in the URL query parameters, so that links
+  // and back/forward navigation restore them. Needs the Angular router, read when the chart is
+  // created.
+  @Input() syncUrl = false;
+
+  @Output() countrySelected = new EventEmitter<NodeData>();
+  // Emits the countries compared side by side, in the order they were picked
+  @Output() comparisonChanged = new EventEmitter<NodeData[]>();
+  // Emits the name of the focused region, or null when zoomed out to the whole chart
+  @Output() regionFocused = new EventEmitter<string | null>();
+  @Output() valueKeyChanged = new EventEmitter<MetricKey>();
+  @Output() layoutTypeChanged = new EventEmitter<LayoutType>();
+  @Output() yearChanged = new EventEmitter<number>();
+  @Output() filterChanged = new EventEmitter<ChartFilter>();
+  @Output() themeChanged = new EventEmitter<ThemeName | 'auto'>();
+  @Output() colourBlindPaletteChanged = new EventEmitter<string | null>();
+  @Output() patternFillsChanged = new EventEmitter<boolean>();
+
+  protected loadError: DataSourceError | null = null;
+  protected issues: RecordIssue[] = [];
+  protected readonly formatIssue = formatIssue;
+  protected isDraggingFile = false;
+  // Alternative views: the data table and the audio summary
+  protected showTable = false;
+  // Panel opened from the view controls
+  protected openPanel: 'filters' | 'colours' | 'export' | null = null;
+  protected isExporting = false;
+  protected exportSize = { width: 1200, height: 800 };
+  protected isSonifying = false;
+  protected announcement = '';
+  // Theme picked in the view controls, or given by the theme input
+  protected currentTheme: ThemeName | 'auto' | ChartTheme = 'auto';
+  protected readonly themeOptions: {
+    value: ThemeName | 'auto';
+    label: string;
+  }[] = [
+    { value: 'auto', label: 'Auto theme' },
+    { value: 'light', label: 'Light' },
+    { value: 'dark', label: 'Dark' },
+    { value: 'high-contrast', label: 'High contrast' },
+  ];
+  // Colour-blind-safe palette and pattern fills picked in the colour panel, or given by the inputs
+  protected currentPalette: string | null = null;
+  protected currentPatternFills = false;
+  // Simulated colour vision, offered in dev mode only to check the colours
+  protected colourVision: ColourVision | null = null;
+  protected readonly isDevMode = isDevMode();
+  // Search box state
+  protected searchQuery = '';
+  protected searchResults: SearchResult[] = [];
+  protected activeResultIndex = -1;
+  protected readonly searchId = `chart-search-${++instanceCount}`;
+  // Chart state shared with the data table
+  protected selectedCountry: string | null = null;
+  // Names of the countries compared side by side in the drawer, added by shift-clicking them. Their
+  // values are looked up in the shown data whenever it changes.
+  protected comparedNames: string[] = [];
+  protected focusedRegion: string | null = null;
+  // Summary of the focused region, shown while it is focused
+  protected regionSummary: RegionSummary | null = null;
+
   private chart!: CircularPackChart;
   private resizeObserver!: ResizeObserver;
   private debounceTimer: number | undefined;
-  private hierarchyData!: NodeData;
-  private currentValueKey: 'population' | 'landAreaKM2' = 'landAreaKM2';
+  // Counts the loads started, so that a load finishing after a newer one started is dropped
+  private loadCount = 0;
+  protected hierarchyData?: NodeData;
+  // The hierarchy with the filter applied, as drawn by the chart
+  protected visibleData?: NodeData;
+  // Counted once when the data or filter changes, rather than on every change detection
+  protected totalCount = 0;
+  protected shownCount = 0;
+  // Whether any country has coordinates, so that it can be positioned on the map
+  protected hasCoordinates = false;
+  protected currentValueKey: MetricKey = 'landAreaKM2';
+  protected currentLayoutType: LayoutType = 'pack';
+  // Years of data with values by year, and the year shown
+  protected years: number[] = [];
+  protected currentYear: number | null = null;
+  protected isPlaying = false;
+  private playbackTimer: number | undefined;
+  private sonifier = new Sonifier();
+  private host = inject<ElementRef<HTMLElement>>(ElementRef);
+  // Followed by the 'auto' theme
+  private colourSchemeQuery: MediaQueryList | null = null;
+  private readonly onColourSchemeChange = () => this.applyTheme();
+  private router = inject(Router, { optional: true });
+  private navigationSubscription: Subscription | null = null;
+  // State read from the URL before the data was loaded, applied once it is
+  private pendingUrlState: ChartUrlState | null = null;
+  // Set while the state is applied from the URL, so that it is not written back
+  private isApplyingUrlState = false;
 
   ngAfterViewInit(): void {
     this.initialiseChart();
   }
 
+  /**
+   * Applies input changes with the least work needed: new data is reloaded, a new value key
+   * re-renders, new dimensions resize and a new colour scheme only recolours the circles.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['valueKey']) {
+      this.currentValueKey = this.valueKey;
+    }
+    if (changes['layoutType']) {
+      this.currentLayoutType = this.layoutType;
+    }
+    if (changes['year'] && this.year !== undefined) {
+      this.currentYear = this.year;
+    }
+    if (changes['theme']) {
+      this.currentTheme = this.theme;
+    }
+    if (changes['colourBlindPalette']) {
+      this.currentPalette = this.colourBlindPalette;
+    }
+    if (changes['patternFills']) {
+      this.currentPatternFills = this.patternFills;
+    }
+
+    // Initial inputs are applied when the chart is initialised
+    if (!this.chart) return;
+
+    if (
+      changes['colourScheme'] ||
+      changes['theme'] ||
+      changes['colourBlindPalette']
+    ) {
+      this.applyTheme();
+    }
+    if (changes['patternFills']) {
+      this.chart.setPatternFills(this.currentPatternFills);
+    }
+
+    if (
+      changes['data'] ||
+      changes['dataSource'] ||
+      changes['mapping'] ||
+      changes['metrics']
+    ) {
+      this.loadFrom(this.getDataSource());
+    } else if (
+      changes['valueKey'] ||
+      changes['filter'] ||
+      changes['groupPlacement'] ||
+      changes['layoutType'] ||
+      changes['year']
+    ) {
+      this.renderChart();
+    } else if (changes['width'] || changes['height']) {
+      this.handleResize();
+    }
+
+    // Keep the URL in step with a filter given through the input
+    if (changes['filter']) {
+      this.writeUrlState();
+    }
+  }
+
   ngOnDestroy(): void {
     this.cleanup();
   }
 
   private async initialiseChart(): Promise<void> {
-    try {
-      // Load and transform data
-      const data = await loadData();
-      this.hierarchyData = transformData(data);
+    // Initialise chart
+    this.chart = new CircularPackChart(
+      this.svgRef.nativeElement,
+      createColourScale(this.colourScheme),
+      this.renderer,
+      this.layout
+    );
 
-      // Initialise chart
-      this.chart = new CircularPackChart(this.svgRef.nativeElement);
+    // Apply the theme, and follow changes of the preferred colour scheme
+    this.colourSchemeQuery =
+      window.matchMedia?.('(prefers-color-scheme: dark)') ?? null;
+    this.colourSchemeQuery?.addEventListener(
+      'change',
+      this.onColourSchemeChange
+    );
+    this.applyTheme();
+    this.chart.setPatternFills(this.currentPatternFills);
 
-      // Render initial chart
-      this.renderChart();
+    // Setup the user interactions once, they apply to every render of the chart
+    this.setupInteractions();
+
+    // Setup resize observer
+    this.setupResizeObserver();
+
+    // Restore the state from the URL once the data is loaded, and follow back/forward navigation
+    this.setupUrlSync();
 
-      // Set up the user interactions: toggle, side drawer, click events on country nodes
-      this.setupInteractions();
+    // Load, transform and render the data
+    await this.loadFrom(this.getDataSource());
+  }
 
-      // Setup resize observer
-      this.setupResizeObserver();
+  /**
+   * Returns the source to load data from: the inline data input if set, otherwise the data source
+   * input.
+   */
+  private getDataSource(): DataSource {
+    if (this.data !== undefined) {
+      return new InlineDataSource(this.data, this.mapping);
+    }
+    return this.dataSource;
+  }
+
+  /**
+   * Loads data from the given source and renders it. If the data cannot be loaded, the error is
+   * shown over the chart and any previously rendered data is kept. Issues with individual records
+   * are listed over the chart, and the valid records are still drawn. A load superseded by a newer
+   * one is ignored.
+   *
+   * @param source - The source to load data from
+   */
+  private async loadFrom(source: DataSource): Promise<void> {
+    const load = ++this.loadCount;
+    try {
+      const dataset = await source.load(this.metrics);
+      if (load !== this.loadCount) return;
+
+      this.hierarchyData = dataset.root;
+      this.totalCount = countLeaves(dataset.root);
+      this.hasCoordinates = this.isLocated(dataset.root);
+      this.setYears(getYears(dataset.root));
+      this.issues = dataset.issues;
+      this.loadError = null;
     } catch (error) {
-      console.error('Failed to initialise chart:', error);
+      if (load !== this.loadCount) return;
+
+      this.loadError =
+        error instanceof DataSourceError
+          ? error
+          : new DataSourceError('Failed to load data.', [String(error)]);
+      return;
     }
+
+    this.renderChart();
+
+    if (this.pendingUrlState) {
+      this.applyUrlState(this.pendingUrlState);
+    }
+
+    // Re-run the search over the new data
+    if (this.searchQuery) {
+      this.onSearchInput(this.searchQuery);
+    }
+  }
+
+  /**
+   * Allows files to be dropped onto the chart.
+   *
+   * @param event - The dragover event
+   */
+  protected onFileDragOver(event: DragEvent): void {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.isDraggingFile = true;
   }
 
   /**
-   * Sets up the toggle, side drawer, and country node click events.
+   * Loads a JSON or CSV file dropped onto the chart.
+   *
+   * @param event - The drop event
+   */
+  protected onFileDrop(event: DragEvent): void {
+    this.isDraggingFile = false;
+
+    const file = event.dataTransfer?.files[0];
+    if (!file) return;
+
+    event.preventDefault();
+    this.loadFrom(new FileDataSource(file, this.mapping));
+  }
+
+  /**
+   * Hides the load error message.
+   */
+  protected dismissError(): void {
+    this.loadError = null;
+  }
+
+  /**
+   * Returns the number of records skipped because of errors.
+   */
+  protected get skippedRecordCount(): number {
+    return new Set(
+      this.issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => issue.record)
+    ).size;
+  }
+
+  /**
+   * Hides the record issues panel.
+   */
+  protected dismissIssues(): void {
+    this.issues = [];
+  }
+
+  /**
+   * Sets up the toggle, country node, region circle and background click events, and keyboard
+   * navigation. The side drawer sets up its own close interactions when opened.
    */
   private setupInteractions(): void {
     setupToggleInteractions(this.svgRef.nativeElement, (newValueKey) => {
       this.onValueKeyChange(newValueKey);
     });
 
-    setupCountryClickInteractions(this.svgRef.nativeElement, (countryData) => {
-      this.onCountryClick(countryData);
+    setupCountryClickInteractions(
+      this.svgRef.nativeElement,
+      (countryData, addToComparison) =>
+        this.onCountryClick(countryData, addToComparison)
+    );
+
+    setupRegionClickInteractions(this.svgRef.nativeElement, (regionName) => {
+      this.onRegionClick(regionName);
     });
 
-    setupDrawerInteractions(() => {
-      this.onDrawerClose();
+    setupBackgroundClickInteractions(this.svgRef.nativeElement, () => {
+      this.onBackgroundClick();
     });
+
+    setupKeyboardInteractions(
+      this.svgRef.nativeElement,
+      (countryData, addToComparison) =>
+        this.onCountryClick(countryData, addToComparison),
+      (regionName) => this.onRegionClick(regionName)
+    );
   }
 
   /**
    * Sets the chart configurations (width, height and selected value key) then renders the chart
    * accordingly (calls public render method from CircularPackChart).
    */
-  private renderChart(): void {
+  private renderChart(transitionDuration?: number): void {
     if (!this.chart || !this.hierarchyData) return;
 
     const config: ChartConfig = {
       width: this.getSvgDimensions().width,
       height: this.getSvgDimensions().height,
       valueKey: this.currentValueKey,
+      metrics: this.metrics,
+      groupPlacement: this.groupPlacement,
+      layoutType: this.currentLayoutType,
+      transitionDuration,
     };
 
-    this.chart.render(this.hierarchyData, config);
-
-    setTimeout(() => {
-      this.setupInteractions();
-    }, 100); // Tiny delay to ensure DOM is ready
+    const data =
+      this.currentYear !== null
+        ? getSnapshot(this.hierarchyData, this.currentYear, this.metrics)
+        : this.hierarchyData;
+    this.visibleData = filterHierarchy(data, this.filter);
+    this.shownCount = countLeaves(this.visibleData);
+    this.chart.render(this.visibleData, config);
+    this.setFocusedRegion(this.chart.getFocusedRegion());
+    this.refreshComparison();
   }
 
-  /**)
-   * Returns the dimensions (width, height) of an SVG.
+  /**
+   * Returns the dimensions (width, height) of an SVG, preferring the width and height inputs.
    */
   private getSvgDimensions(): { width: number; height: number } {
     const rect = this.svgRef.nativeElement.getBoundingClientRect();
     const fallback = 600; // Fallback width and height
     return {
-      width: rect.width || fallback,
-      height: rect.height || fallback,
+      width: this.width ?? (rect.width || fallback),
+      height: this.height ?? (rect.height || fallback),
     };
   }
 
@@ -169,33 +573,594 @@ export class CircularPackComponent implements AfterViewInit, OnDestroy {
     if (this.chart) {
       this.chart.destroy();
     }
+
+    this.navigationSubscription?.unsubscribe();
+    this.colourSchemeQuery?.removeEventListener(
+      'change',
+      this.onColourSchemeChange
+    );
+    this.stopPlayback();
+    this.sonifier.destroy();
+  }
+
+  /**
+   * Value of the theme picker: the name of the current theme, or 'custom' for a custom theme.
+   */
+  protected get themeValue(): string {
+    return typeof this.currentTheme === 'string' ? this.currentTheme : 'custom';
+  }
+
+  /**
+   * Switches to the theme picked in the view controls and notifies the host.
+   *
+   * @param value - Name of the theme, or 'auto'
+   */
+  protected onThemeSelect(value: string): void {
+    const option = this.themeOptions.find((theme) => theme.value === value);
+    if (!option) return;
+
+    this.currentTheme = option.value;
+    this.applyTheme();
+    this.themeChanged.emit(option.value);
+  }
+
+  /**
+   * Switches to the colour-blind-safe palette picked in the colour panel and notifies the host.
+   *
+   * @param palette - Name of the palette, or null for the colours of the theme
+   */
+  protected onPaletteChange(palette: string | null): void {
+    this.currentPalette = palette;
+    this.applyTheme();
+    this.colourBlindPaletteChanged.emit(palette);
+  }
+
+  /**
+   * Turns the pattern fills of the regions on or off and notifies the host.
+   *
+   * @param enabled - Whether to fill the countries with their region's pattern
+   */
+  protected onPatternFillsChange(enabled: boolean): void {
+    this.currentPatternFills = enabled;
+    this.chart.setPatternFills(enabled);
+    this.patternFillsChanged.emit(enabled);
+  }
+
+  /**
+   * Previews the chart as seen with a colour vision deficiency.
+   *
+   * @param vision - The deficiency to simulate, or null for normal vision
+   */
+  protected onColourVisionChange(vision: ColourVision | null): void {
+    this.colourVision = vision;
+    this.chart.setColourVision(vision);
+  }
+
+  /**
+   * Applies the current theme: its colours as CSS custom properties on the host element, which the
+   * chart, panels and table inherit, and its palette and opacities to the circles. A colour-blind-
+   * safe palette takes precedence over the colour scheme and the theme's palette. The chart is not
+   * laid out again.
+   */
+  private applyTheme(): void {
+    const theme = resolveTheme(
+      this.currentTheme,
+      this.colourSchemeQuery?.matches ?? false
+    );
+
+    const hostStyle = this.host.nativeElement.style;
+    Object.entries(toCssProperties(theme)).forEach(([property, value]) =>
+      hostStyle.setProperty(property, value)
+    );
+
+    const palette = this.currentPalette
+      ? COLOUR_BLIND_SAFE_PALETTES[this.currentPalette]
+      : undefined;
+    this.chart.setColourScale(
+      createColourScale(palette ?? this.colourScheme ?? theme.palette)
+    );
+    this.chart.setTheme(theme);
+  }
+
+  /**
+   * Opens a panel of the view controls, or closes it if it is already open.
+   *
+   * @param panel - The panel to toggle
+   */
+  protected togglePanel(panel: 'filters' | 'colours' | 'export'): void {
+    this.openPanel = this.openPanel === panel ? null : panel;
+
+    // Export at the chart's size on screen by default
+    if (this.openPanel === 'export') {
+      const { width, height } = this.getSvgDimensions();
+      this.exportSize = {
+        width: Math.round(width),
+        height: Math.round(height),
+      };
+    }
+  }
+
+  /**
+   * Exports the chart as it is currently shown, or the data it shows with the computed layout, and
+   * downloads it.
+   *
+   * @param options - Format, size and content of the export
+   */
+  protected async onExport(options: ExportOptions): Promise<void> {
+    this.isExporting = true;
+    const fileName = (this.visibleData?.name || 'chart')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-');
+
+    try {
+      const { format } = options;
+      if (isDataFormat(format)) {
+        // Metrics read from the data, as derived metrics follow from them
+        exportData(
+          this.chart.getLayout(),
+          this.filterMetrics.map((metric) => metric.key),
+          this.currentValueKey,
+          format,
+          fileName
+        );
+      } else {
+        await exportChart(
+          this.svgRef.nativeElement,
+          { ...options, format },
+          fileName
+        );
+      }
+    } catch (error) {
+      console.error('Chart export failed:', error);
+      this.announcement = 'The chart could not be exported.';
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
+  /**
+   * Re-renders the chart with the new filter, re-running the layout on just the matching countries.
+   *
+   * @param filter - The new filter
+   */
+  protected onFilterChange(filter: ChartFilter): void {
+    this.filter = filter;
+    this.renderChart();
+    this.filterChanged.emit(filter);
+    this.writeUrlState();
+
+    // Keep the search matches in line with the countries shown
+    if (this.searchQuery) {
+      this.onSearchInput(this.searchQuery);
+    }
+  }
+
+  /**
+   * Returns the metrics that can be filtered on: those read from the data, as derived metrics
+   * follow from them.
+   */
+  protected get filterMetrics(): MetricDefinition[] {
+    return this.metrics.list().filter((metric) => !metric.derive);
+  }
+
+  /**
+   * Returns the names of the top-level groups of the data, which can be hidden by the filter.
+   */
+  protected get groupNames(): string[] {
+    return (this.hierarchyData?.children ?? []).map((group) => group.name);
+  }
+
+  protected get isFiltered(): boolean {
+    return isFilterActive(this.filter);
+  }
+
+  /**
+   * Returns true if any country below a node has coordinates.
+   */
+  private isLocated(node: NodeData): boolean {
+    return node.children
+      ? node.children.some((child) => this.isLocated(child))
+      : node.lat !== undefined;
+  }
+
+  /**
+   * Switches between the pack and map layouts, animating the circles to their new positions.
+   */
+  protected toggleLayoutType(): void {
+    this.currentLayoutType = this.currentLayoutType === 'geo' ? 'pack' : 'geo';
+    this.renderChart();
+    this.layoutTypeChanged.emit(this.currentLayoutType);
+  }
+
+  /**
+   * Searches the nodes by name, listing the best matches under the search box and highlighting
+   * every match in the chart.
+   *
+   * @param query - The search query
+   */
+  protected onSearchInput(query: string): void {
+    this.searchQuery = query;
+    this.activeResultIndex = -1;
+
+    if (!this.visibleData || query.trim() === '') {
+      this.searchResults = [];
+      this.chart?.highlightNodes(null);
+      return;
+    }
+
+    const results = searchNodes(this.visibleData, query);
+    this.searchResults = results.slice(0, MAX_SEARCH_RESULTS);
+    this.chart?.highlightNodes(
+      new Set(results.map((result) => result.data.name))
+    );
+  }
+
+  /**
+   * Moves through the search results with the arrow keys, selects one with Enter and clears the
+   * search with Escape.
+   *
+   * @param event - The keydown event of the search box
+   */
+  protected onSearchKeydown(event: KeyboardEvent): void {
+    const count = this.searchResults.length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (count === 0) return;
+        event.preventDefault();
+        this.activeResultIndex =
+          (this.activeResultIndex +
+            (event.key === 'ArrowDown' ? 1 : -1) +
+            count) %
+          count;
+        break;
+      case 'Enter': {
+        const result = this.searchResults[Math.max(0, this.activeResultIndex)];
+        if (!result) return;
+        event.preventDefault();
+        this.selectSearchResult(result);
+        break;
+      }
+      case 'Escape':
+        this.clearSearch();
+        break;
+    }
+  }
+
+  /**
+   * Zooms to the selected search result, highlighting it. Countries are shown within their region,
+   * with their drawer opened.
+   *
+   * @param result - The selected search result
+   */
+  protected selectSearchResult(result: SearchResult): void {
+    this.searchQuery = result.data.name;
+    this.searchResults = [];
+    this.activeResultIndex = -1;
+    if (!this.chart) return;
+
+    this.chart.highlightNodes(new Set([result.data.name]));
+
+    const region = result.isLeaf ? result.parentName : result.data.name;
+    if (this.chart.getFocusedRegion() !== region) {
+      this.chart.zoomToRegion(region);
+      this.setFocusedRegion(this.chart.getFocusedRegion());
+      this.regionFocused.emit(this.focusedRegion);
+    }
+
+    if (result.isLeaf) {
+      this.onCountryClick(result.data);
+    } else {
+      this.writeUrlState();
+    }
+  }
+
+  /**
+   * Clears the search box and removes the highlight from the chart.
+   */
+  protected clearSearch(): void {
+    this.searchQuery = '';
+    this.searchResults = [];
+    this.activeResultIndex = -1;
+    this.chart?.highlightNodes(null);
+  }
+
+  /**
+   * Plays the audio summary of the visible countries, largest first, announcing each country as
+   * its tone plays. Stops the summary if it is already playing.
+   */
+  protected toggleSonification(): void {
+    if (this.isSonifying) {
+      this.sonifier.stop();
+      return;
+    }
+    if (!this.visibleData) return;
+
+    const valueKey = this.currentValueKey;
+    const rows = sortTableRows(
+      toTableRows(this.visibleData, this.focusedRegion),
+      valueKey,
+      'descending'
+    ).filter((row) => row.data.metrics?.[valueKey] !== undefined);
+
+    const items = rows.map((row) => {
+      const value = row.data.metrics?.[valueKey] ?? 0;
+      return {
+        value,
+        description: `${row.data.name}: ${this.metrics.format(valueKey, value)}`,
+      };
+    });
+
+    if (items.length === 0) {
+      this.announcement = 'No countries to play';
+      return;
+    }
+
+    this.isSonifying = true;
+    this.sonifier.play(
+      items,
+      (item) => (this.announcement = item.description),
+      () => (this.isSonifying = false)
+    );
+  }
+
+  /**
+   * Sets the years of newly loaded data, keeping the year shown if the data has it and otherwise
+   * showing the year input or the latest year.
+   *
+   * @param years - The years of the data, empty if it has no values by year
+   */
+  private setYears(years: number[]): void {
+    this.stopPlayback();
+    this.years = years;
+
+    const preferred = [this.currentYear, this.year ?? null];
+    this.currentYear =
+      preferred.find((year) => year !== null && years.includes(year)) ??
+      years.at(-1) ??
+      null;
+  }
+
+  /**
+   * Returns the position of the year shown among the years, for the year slider.
+   */
+  protected get yearIndex(): number {
+    return this.currentYear !== null ? this.years.indexOf(this.currentYear) : 0;
+  }
+
+  /**
+   * Shows the year picked on the year slider, pausing the playback.
+   *
+   * @param index - Position of the year among the years
+   */
+  protected onYearInput(index: number): void {
+    this.stopPlayback();
+    this.showYear(this.years[index]);
+    this.announcement = `Showing ${this.currentYear}`;
+  }
+
+  /**
+   * Plays the years in order from the year shown, or from the first year if the last is shown,
+   * animating the circles between them. Pauses if already playing.
+   */
+  protected togglePlayback(): void {
+    if (this.isPlaying) {
+      this.stopPlayback();
+      return;
+    }
+
+    if (this.yearIndex >= this.years.length - 1) {
+      this.showYear(this.years[0], PLAYBACK_TRANSITION_DURATION);
+    }
+    this.isPlaying = true;
+    this.playbackTimer = window.setInterval(() => {
+      const next = this.years[this.yearIndex + 1];
+      if (next === undefined) {
+        this.stopPlayback();
+        return;
+      }
+      this.showYear(next, PLAYBACK_TRANSITION_DURATION);
+    }, PLAYBACK_INTERVAL);
+  }
+
+  /**
+   * Pauses the playback, keeping the year shown.
+   */
+  private stopPlayback(): void {
+    clearInterval(this.playbackTimer);
+    this.playbackTimer = undefined;
+    this.isPlaying = false;
+  }
+
+  /**
+   * Re-renders the chart with the values of a year, animating the circles to their new sizes.
+   *
+   * @param year - The year to show
+   * @param transitionDuration - Duration of the transition in ms, optional
+   */
+  private showYear(year: number, transitionDuration?: number): void {
+    if (year === this.currentYear) return;
+
+    this.currentYear = year;
+    this.renderChart(transitionDuration);
+    this.yearChanged.emit(year);
   }
 
   /**
    * Re-renders the chart in response to a change in the value key.
    *
-   * @param newValueKey - new selected value key (population or land area)
+   * @param newValueKey - new selected metric key
    */
-  private onValueKeyChange(newValueKey: 'population' | 'landAreaKM2'): void {
+  private onValueKeyChange(newValueKey: MetricKey): void {
     if (this.currentValueKey !== newValueKey) {
       this.currentValueKey = newValueKey;
       this.renderChart();
+      this.valueKeyChanged.emit(newValueKey);
+      this.writeUrlState();
     }
   }
 
   /**
-   * Opens the drawer with the selected country data.
+   * Opens the drawer with the selected country data and notifies the host, or adds the country to
+   * the comparison.
    *
    * @param countryData - Data for the current selected country.
+   * @param addToComparison - Whether to compare the country side by side with the others picked
    */
-  private onCountryClick(countryData: any): void {
+  protected onCountryClick(
+    countryData: NodeData,
+    addToComparison = false
+  ): void {
     if (!this.chart) {
       console.error('Chart not initialised.');
       return;
     }
+    if (addToComparison) {
+      this.onCountryCompare(countryData);
+      return;
+    }
+    this.setComparedNames([]);
     this.chart.openDrawer(countryData, () => {
       this.onDrawerClose();
     });
+    this.selectedCountry = countryData.name;
+    this.countrySelected.emit(countryData);
+    this.writeUrlState();
+  }
+
+  /**
+   * Adds a country to the comparison and opens the comparison drawer. A country already open in the
+   * drawer becomes the first one compared.
+   *
+   * @param countryData - Data for the country to add
+   */
+  private onCountryCompare(countryData: NodeData): void {
+    const selected = this.findCountry(this.selectedCountry);
+    const compared =
+      this.comparedNames.length === 0 && selected
+        ? [selected.name]
+        : this.comparedNames;
+    const next = addToComparison(compared, countryData.name);
+
+    if (!next.includes(countryData.name)) {
+      this.announcement = `Up to ${MAX_COMPARED_COUNTRIES} countries can be compared.`;
+    }
+    if (this.selectedCountry !== null) {
+      this.selectedCountry = null;
+      this.writeUrlState();
+    }
+    this.setComparedNames(next);
+    this.openComparison();
+  }
+
+  /**
+   * Removes a country from the comparison, closing the drawer once none are left.
+   *
+   * @param name - Name of the country to remove
+   */
+  private onComparisonRemove(name: string): void {
+    const next = removeFromComparison(this.comparedNames, name);
+    if (next.length === 0) {
+      this.onDrawerClose();
+      return;
+    }
+    this.setComparedNames(next);
+    this.openComparison();
+  }
+
+  /**
+   * Opens the drawer comparing the countries with their shown values, or updates it if it is open.
+   */
+  private openComparison(): void {
+    this.chart.openComparison(
+      this.getComparedCountries(),
+      (name) => this.onComparisonRemove(name),
+      () => this.onDrawerClose()
+    );
+  }
+
+  /**
+   * Updates the open comparison to the newly rendered data: countries the filter hides are left
+   * out, and the drawer is closed once none are left.
+   */
+  private refreshComparison(): void {
+    if (this.comparedNames.length === 0) return;
+
+    const shown = this.comparedNames.filter((name) => this.findCountry(name));
+    if (shown.length === 0) {
+      this.onDrawerClose();
+      return;
+    }
+    this.setComparedNames(shown);
+    this.openComparison();
+  }
+
+  /**
+   * Returns the compared countries as shown in the chart, for the current year and filter.
+   */
+  private getComparedCountries(): NodeData[] {
+    return this.comparedNames
+      .map((name) => this.findCountry(name))
+      .filter((country) => country !== undefined);
+  }
+
+  /**
+   * Sets the names of the compared countries and notifies the host if they changed.
+   */
+  private setComparedNames(names: string[]): void {
+    if (
+      names.length === this.comparedNames.length &&
+      names.every((name, i) => name === this.comparedNames[i])
+    ) {
+      return;
+    }
+
+    this.comparedNames = names;
+    this.comparisonChanged.emit(this.getComparedCountries());
+  }
+
+  /**
+   * Zooms into the clicked region, or out one level if the region is already focused.
+   *
+   * @param regionName - Name of the clicked region
+   */
+  private onRegionClick(regionName: string): void {
+    if (!this.chart) {
+      console.error('Chart not initialised.');
+      return;
+    }
+    if (this.chart.getFocusedRegion() === regionName) {
+      this.chart.zoomOut();
+    } else {
+      this.chart.zoomToRegion(regionName);
+    }
+    this.setFocusedRegion(this.chart.getFocusedRegion());
+    this.regionFocused.emit(this.focusedRegion);
+    this.writeUrlState();
+  }
+
+  /**
+   * Sets the focused region and summarises it, or hides the summary when zoomed out.
+   *
+   * @param region - Name of the focused region, or null for the whole chart
+   */
+  private setFocusedRegion(region: string | null): void {
+    this.focusedRegion = region;
+    this.regionSummary =
+      region !== null ? this.chart.getRegionSummary(region) : null;
+  }
+
+  /**
+   * Zooms back out to the whole chart when the background is clicked.
+   */
+  private onBackgroundClick(): void {
+    if (this.chart.getFocusedRegion() === null) return;
+
+    this.chart.resetZoom();
+    this.setFocusedRegion(null);
+    this.regionFocused.emit(null);
+    this.writeUrlState();
   }
 
   /**
@@ -203,5 +1168,145 @@ export class CircularPackComponent implements AfterViewInit, OnDestroy {
    */
   private onDrawerClose(): void {
     this.chart.closeDrawer();
+    this.selectedCountry = null;
+    this.setComparedNames([]);
+    this.writeUrlState();
+  }
+
+  /**
+   * Restores the state from the URL and applies the state of every later navigation, e.g. back and
+   * forward, when the URL is synced.
+   */
+  private setupUrlSync(): void {
+    const router = this.router;
+    if (!this.syncUrl) return;
+    if (!router) {
+      console.warn('The chart state cannot be synced without the router.');
+      return;
+    }
+
+    const applyUrl = (url: string) =>
+      this.applyUrlState(fromQueryParams(router.parseUrl(url).queryParamMap));
+
+    // The initial navigation may still be in progress, in which case it is applied when it ends
+    if (router.navigated) {
+      applyUrl(router.url);
+    }
+    this.navigationSubscription = router.events.subscribe((event) => {
+      if (event instanceof NavigationEnd) {
+        applyUrl(event.urlAfterRedirects);
+      }
+    });
+  }
+
+  /**
+   * Returns the state to keep in the URL.
+   */
+  private getUrlState(): ChartUrlState {
+    return {
+      valueKey: this.currentValueKey,
+      region: this.focusedRegion,
+      country: this.selectedCountry,
+      filter: this.filter,
+    };
+  }
+
+  /**
+   * Applies a state read from the URL: re-renders for a new metric or filter, then zooms to the
+   * region and opens the country's drawer. Names not found in the data are ignored, and a missing
+   * metric falls back to the valueKey input.
+   *
+   * @param state - The state read from the URL
+   */
+  private applyUrlState(state: ChartUrlState): void {
+    if (!this.chart || !this.hierarchyData) {
+      this.pendingUrlState = state;
+      return;
+    }
+    this.pendingUrlState = null;
+
+    const valueKey =
+      state.valueKey !== null && this.metrics.get(state.valueKey)
+        ? state.valueKey
+        : this.valueKey;
+    const target: ChartUrlState = { ...state, valueKey };
+    if (isSameUrlState(target, this.getUrlState())) return;
+
+    const isNewMetric = valueKey !== this.currentValueKey;
+    const isNewFilter = !isSameUrlState(target, {
+      ...target,
+      filter: this.filter,
+    });
+
+    this.isApplyingUrlState = true;
+    try {
+      if (isNewMetric || isNewFilter) {
+        this.currentValueKey = valueKey;
+        this.filter = state.filter;
+        this.renderChart();
+        if (isNewMetric) this.valueKeyChanged.emit(valueKey);
+        if (isNewFilter) this.filterChanged.emit(state.filter);
+      }
+
+      const region = this.findGroup(state.region);
+      if (region !== this.chart.getFocusedRegion()) {
+        this.chart.zoomToRegion(region);
+        this.setFocusedRegion(region);
+        this.regionFocused.emit(region);
+      }
+
+      const country = this.findCountry(state.country);
+      if (country && country.name !== this.selectedCountry) {
+        this.onCountryClick(country);
+      } else if (!country && this.selectedCountry !== null) {
+        this.onDrawerClose();
+      }
+    } finally {
+      this.isApplyingUrlState = false;
+    }
+  }
+
+  /**
+   * Writes the current state to the URL as a new history entry, unless the URL is not synced or the
+   * state is being applied from the URL.
+   */
+  private writeUrlState(): void {
+    if (!this.syncUrl || !this.router || this.isApplyingUrlState) return;
+
+    this.router.navigate([], {
+      queryParams: toQueryParams(this.getUrlState()),
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  /**
+   * Returns the name if it is the name of a group shown in the chart, otherwise null.
+   */
+  private findGroup(name: string | null): string | null {
+    const node = name !== null ? this.findShownNode(name) : undefined;
+    return node?.children ? node.name : null;
+  }
+
+  /**
+   * Returns the country with the name if it is shown in the chart.
+   */
+  private findCountry(name: string | null): NodeData | undefined {
+    const node = name !== null ? this.findShownNode(name) : undefined;
+    return node && !node.children ? node : undefined;
+  }
+
+  /**
+   * Finds a node shown in the chart by name, below the root.
+   */
+  private findShownNode(name: string): NodeData | undefined {
+    const find = (nodes: NodeData[]): NodeData | undefined => {
+      for (const node of nodes) {
+        if (node.name === name) return node;
+        const found = find(node.children ?? []);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    return find(this.visibleData?.children ?? []);
   }
 }
@@ -0,0 +1,82 @@
+import { MetricRegistry } from '../utils/metrics';
+import { CircularPackChart } from './chart';
+import { ExportOptions, serialiseChart } from './export';
+
+describe('chart export', () => {
+  const options: ExportOptions = {
+    format: 'svg',
+    width: 1000,
+    height: 500,
+    scale: 1,
+    includeFlags: false,
+  };
+  let container: HTMLDivElement;
+  let svg: SVGSVGElement;
+  let chart: CircularPackChart;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.classList.add('d3-circular-pack');
+    svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    container.appendChild(svg);
+    document.body.appendChild(container);
+
+    chart = new CircularPackChart(svg, undefined, 'svg', 'sync');
+    chart.render(
+      {
+        name: 'Europe',
+        children: [
+          {
+            name: 'Northern Europe',
+            children: [{ name: 'Norway', metrics: { landAreaKM2: 365000 } }],
+          },
+        ],
+      },
+      {
+        width: 400,
+        height: 300,
+        valueKey: 'landAreaKM2',
+        metrics: new MetricRegistry(),
+      }
+    );
+  });
+
+  afterEach(() => {
+    chart.destroy();
+    container.remove();
+  });
+
+  it('should serialise a standalone SVG at the chosen size', async () => {
+    const svgText = await serialiseChart(svg, options);
+    const exported = new DOMParser().parseFromString(
+      svgText,
+      'image/svg+xml'
+    ).documentElement;
+
+    expect(exported.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect(exported.getAttribute('width')).toBe('1000');
+    expect(exported.getAttribute('height')).toBe('500');
+    expect(exported.getAttribute('viewBox')).toBe(svg.getAttribute('viewBox'));
+  });
+
+  it('should inline the styles and leave out the toggle', async () => {
+    const svgText = await serialiseChart(svg, options);
+    const exported = new DOMParser().parseFromString(
+      svgText,
+      'image/svg+xml'
+    ).documentElement;
+
+    expect(exported.querySelector('.value-toggle')).toBeNull();
+    expect(
+      exported.querySelector<SVGElement>('.svg-viewbox-rect')?.style.fill
+    ).toBe('none');
+    expect(exported.querySelector('[tabindex]')).toBeNull();
+  });
+
+  it('should leave the chart on screen unchanged', async () => {
+    await serialiseChart(svg, options);
+
+    expect(svg.querySelector('.value-toggle')).not.toBeNull();
+    expect(svg.hasAttribute('width')).toBeFalse();
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Chart export functions: standalone SVG, PNG and PDF downloads of the rendered chart, and CSV and
+ * JSON downloads of its data and layout
+ */
+
+import * as d3 from 'd3';
+import { MetricKey, NodeData } from '../shared/types';
+import { layoutToCsv, toLayoutRows } from '../utils/layout-data';
+import { POINTS_PER_PIXEL, createImagePdf } from '../utils/pdf';
+import { ChartLayout } from './chart';
+
+export type ImageFormat = 'svg' | 'png' | 'pdf';
+export type DataFormat = 'csv' | 'json';
+export type ExportFormat = ImageFormat | DataFormat;
+
+/**
+ * Checks whether an export format downloads the chart's data rather than an image of it.
+ */
+export function isDataFormat(format: ExportFormat): format is DataFormat {
+  return format === 'csv' || format === 'json';
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Size of the exported chart in px, independent of its size on screen
+  width: number;
+  height: number;
+  // Pixel density of PNG and PDF exports, e.g. 2 for high-DPI screens
+  scale: number;
+  // Whether to show each country's flag within its circle
+  includeFlags: boolean;
+}
+
+// Style properties copied from the page's stylesheets onto the exported elements
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'opacity',
+  'visibility',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'vector-effect',
+];
+
+/**
+ * Exports the chart and downloads it as a file.
+ *
+ * @param svgElement - The rendered chart
+ * @param options - Format, size and content of the export
+ * @param fileName - Name of the downloaded file, without extension
+ */
+export async function exportChart(
+  svgElement: SVGSVGElement,
+  options: ExportOptions & { format: ImageFormat },
+  fileName: string
+): Promise<void> {
+  const svgText = await serialiseChart(svgElement, options);
+  let blob: Blob;
+
+  if (options.format === 'svg') {
+    blob = new Blob([svgText], { type: 'image/svg+xml' });
+  } else if (options.format === 'png') {
+    const canvas = await rasteriseSvg(svgText, options);
+    blob = await canvasToBlob(canvas, 'image/png');
+  } else {
+    // JPEG has no transparency, so the chart is drawn on a white page
+    const canvas = await rasteriseSvg(svgText, options, '#fff');
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg');
+    const pdf = createImagePdf(
+      new Uint8Array(await jpeg.arrayBuffer()),
+      canvas.width,
+      canvas.height,
+      options.width * POINTS_PER_PIXEL,
+      options.height * POINTS_PER_PIXEL
+    );
+    blob = new Blob([pdf], { type: 'application/pdf' });
+  }
+
+  downloadBlob(blob, `${fileName}.${options.format}`);
+}
+
+/**
+ * Exports the data shown by the chart with its computed layout and downloads it as a file.
+ *
+ * @param layout - The chart's current pack layout
+ * @param metricKeys - Keys of the metrics to include
+ * @param valueKey - Key of the metric the circles are sized by
+ * @param format - CSV or JSON
+ * @param fileName - Name of the downloaded file, without extension
+ */
+export function exportData(
+  layout: ChartLayout,
+  metricKeys: MetricKey[],
+  valueKey: MetricKey,
+  format: DataFormat,
+  fileName: string
+): void {
+  const rows = toLayoutRows(layout.nodes, metricKeys);
+  const blob =
+    format === 'csv'
+      ? new Blob([layoutToCsv(rows, metricKeys)], { type: 'text/csv' })
+      : new Blob(
+          [
+            JSON.stringify(
+              {
+                width: layout.width,
+                height: layout.height,
+                valueKey,
+                nodes: rows,
+              },
+              null,
+              2
+            ),
+          ],
+          { type: 'application/json' }
+        );
+
+  downloadBlob(blob, `${fileName}.${format}`);
+}
+
+/**
+ * Serialises the chart as a standalone SVG document: styles from the page's stylesheets are
+ * inlined, interactive controls are left out and flag images are embedded as data URLs.
+ *
+ * @param svgElement - The rendered chart
+ * @param options - Size and content of the export
+ * @returns The SVG document
+ */
+export async function serialiseChart(
+  svgElement: SVGSVGElement,
+  options: ExportOptions
+): Promise<string> {
+  const clone = svgElement.cloneNode(true) as SVGSVGElement;
+
+  // Elements of the clone are in the same document order as those of the original
+  const sourceElements = [svgElement, ...svgElement.querySelectorAll('*')];
+  const cloneElements = [clone, ...clone.querySelectorAll('*')];
+  sourceElements.forEach((source, index) => {
+    const computed = getComputedStyle(source);
+    const target = cloneElements[index] as SVGElement;
+    INLINED_STYLES.forEach((property) =>
+      target.style.setProperty(property, computed.getPropertyValue(property))
+    );
+    target.removeAttribute('tabindex');
+  });
+
+  if (options.includeFlags) {
+    await embedFlags(sourceElements, cloneElements);
+  }
+  embedCanvas(svgElement, clone);
+
+  // Leave out the metric toggle and nodes transitioning out of the chart
+  clone
+    .querySelectorAll('.value-toggle, .node.exiting')
+    .forEach((element) => element.remove());
+
+  // The viewBox is kept, so the chart scales to the chosen size
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(options.width));
+  clone.setAttribute('height', String(options.height));
+  clone.removeAttribute('style');
+  clone.removeAttribute('class');
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    new XMLSerializer().serializeToString(clone)
+  );
+}
+
+/**
+ * Adds the nodes of a chart drawn on a canvas as an image behind the main group. The image has the
+ * resolution of the canvas on screen.
+ */
+function embedCanvas(svgElement: SVGSVGElement, clone: SVGSVGElement): void {
+  const canvas = svgElement.parentElement?.querySelector('canvas.chart-canvas');
+  const rect = clone.querySelector('.svg-viewbox-rect');
+  if (!(canvas instanceof HTMLCanvasElement) || !rect) return;
+
+  const image = document.createElementNS('http://www.w3.org/2000/svg', 'image');
+  ['x', 'y', 'width', 'height'].forEach((attribute) =>
+    image.setAttribute(attribute, rect.getAttribute(attribute) ?? '0')
+  );
+  image.setAttribute('href', canvas.toDataURL('image/png'));
+  rect.after(image);
+}
+
+/**
+ * Adds each country's flag within its circle, behind the label. Flags that cannot be loaded are
+ * left out.
+ */
+async function embedFlags(
+  sourceElements: Element[],
+  cloneElements: Element[]
+): Promise<void> {
+  const clone = cloneElements[0] as SVGSVGElement;
+  const defs = d3.select(clone).insert('defs', ':first-child');
+
+  const flags = sourceElements.map(async (source, index) => {
+    if (!source.matches('g.country-node')) return;
+
+    const d = d3
+      .select<Element, d3.HierarchyCircularNode<NodeData>>(source)
+      .datum();
+    if (!d.data.flag) return;
+
+    const dataUrl = await fetchAsDataUrl(d.data.flag);
+    if (!dataUrl) return;
+
+    const clipId = `flag-clip-${index}`;
+    defs.append('clipPath').attr('id', clipId).append('circle').attr('r', d.r);
+
+    d3.select(cloneElements[index])
+      .insert('image', 'text')
+      .attr('href', dataUrl)
+      .attr('x', -d.r)
+      .attr('y', -d.r)
+      .attr('width', d.r * 2)
+      .attr('height', d.r * 2)
+      .attr('preserveAspectRatio', 'xMidYMid slice')
+      .attr('clip-path', `url(#${clipId})`)
+      .attr('opacity', 0.6);
+  });
+
+  await Promise.all(flags);
+}
+
+/**
+ * Fetches an image and returns it as a data URL, or null if it cannot be loaded (e.g. when the
+ * server does not allow cross-origin requests).
+ */
+async function fetchAsDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Draws an SVG document onto a canvas at the export size times its pixel density.
+ *
+ * @param svgText - The SVG document
+ * @param options - Size and pixel density of the export
+ * @param background - Colour to fill the canvas with first, transparent if not set
+ * @returns The canvas
+ */
+async function rasteriseSvg(
+  svgText: string,
+  options: ExportOptions,
+  background?: string
+): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(
+    new Blob([svgText], { type: 'image/svg+xml' })
+  );
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(options.width * options.scale);
+    canvas.height = Math.round(options.height * options.scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported.');
+
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error('Could not export image.')),
+      type,
+      0.92
+    )
+  );
+}
+
+/**
+ * Downloads a blob as a file.
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+}
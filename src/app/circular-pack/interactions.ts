@@ -3,17 +3,32 @@
  */
 
 import * as d3 from 'd3';
-import { NodeData } from '../shared/types';
+import {
+  ChartTheme,
+  MetricDefinition,
+  MetricKey,
+  NodeData,
+} from '../shared/types';
 
-type ValueKeyChangeCallback = (
-  newValueKey: 'population' | 'landAreaKM2'
-) => void;
+type ValueKeyChangeCallback = (newValueKey: MetricKey) => void;
 
-// State to track current value key
-let currentValueKey: 'population' | 'landAreaKM2' = 'landAreaKM2';
+/**
+ * Returns the node under the pointer of an event, for charts whose nodes are drawn on a canvas.
+ */
+export type NodeHitTester = (
+  event: MouseEvent
+) => d3.HierarchyCircularNode<NodeData> | undefined;
+
+// Hit testers of the charts drawn on a canvas, by their SVG element
+const hitTesters = new WeakMap<Element, NodeHitTester>();
+
+/*
+ * Click handlers are delegated to the SVG element, which is kept between renders. They are bound
+ * once and apply to every node and toggle segment, including those added by later renders.
+ */
 
 /**
- * Sets up all interactions related to the population/land area toggle.
+ * Sets up all interactions related to the metric toggle.
  *
  * @param svgElement - The parent SVG element of the toggle
  * @param onValueKeyChange - Callback function for when toggle value is changed
@@ -24,108 +39,266 @@ export function setupToggleInteractions(
 ): void {
   const svg = d3.select(svgElement);
 
-  // Setup toggle click handler
-  svg.select('.value-toggle .toggle-click-area').on('click', function (event) {
-    handleToggleClick(event, svg, onValueKeyChange);
-  });
+  svg.on('click.toggle', (event: MouseEvent) => {
+    const segment = findClosest(event, '.value-toggle .toggle-segment');
+    if (!segment) return;
 
-  // Handle clicks on labels
-  svg.select('.toggle-label-left').on('click', function (event) {
-    if (currentValueKey !== 'landAreaKM2') {
-      handleToggleClick(event, svg, onValueKeyChange);
-    }
+    const metric = d3.select<Element, MetricDefinition>(segment).datum();
+    onValueKeyChange(metric.key);
   });
 
-  svg.select('.toggle-label-right').on('click', function (event) {
-    if (currentValueKey !== 'population') {
-      handleToggleClick(event, svg, onValueKeyChange);
-    }
+  // The toggle behaves as a radio group: the arrow keys select the previous or next metric
+  svg.on('keydown.toggle', (event: KeyboardEvent) => {
+    const segment = findClosest(event, '.value-toggle .toggle-segment');
+    if (!segment) return;
+
+    const segments = svg
+      .selectAll<SVGRectElement, MetricDefinition>(
+        '.value-toggle .toggle-segment'
+      )
+      .nodes();
+    const index = segments.indexOf(segment as SVGRectElement);
+    const targetIndex = getToggleTargetIndex(event.key, index, segments.length);
+    if (targetIndex === null) return;
+
+    event.preventDefault();
+    const target = segments[targetIndex];
+    onValueKeyChange(
+      d3.select<SVGRectElement, MetricDefinition>(target).datum().key
+    );
+    target.focus();
   });
 }
 
 /**
- * Handles click events on the toggle - toggle the value key and notify the component about the
- * change.
+ * Returns the index of the toggle segment to select for a key press, or null if the key does not
+ * change the selection.
  */
-function handleToggleClick(
-  event: MouseEvent,
-  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
-  onValueKeyChange: ValueKeyChangeCallback
+function getToggleTargetIndex(
+  key: string,
+  index: number,
+  count: number
+): number | null {
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return (index + 1) % count;
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return (index - 1 + count) % count;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    case 'Enter':
+    case ' ':
+      return index;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sets up all interactions related to the country leaf nodes.
+ *
+ * @param svgElement - The parent SVG element
+ * @param onCountryClick - Callback function when a country node is clicked, told whether the
+ * country is added to the comparison (shift-click)
+ */
+export function setupCountryClickInteractions(
+  svgElement: SVGSVGElement,
+  onCountryClick: (countryData: NodeData, addToComparison: boolean) => void
 ): void {
-  event.stopPropagation();
+  d3.select(svgElement).on('click.country', (event: MouseEvent) => {
+    const d = getClickedNode(event);
+    if (!d || d.children) return;
 
-  const newValueKey =
-    currentValueKey === 'landAreaKM2' ? 'population' : 'landAreaKM2';
-  currentValueKey = newValueKey;
+    const countryData = d.data;
 
-  onValueKeyChange(newValueKey);
+    if (countryData && countryData.name) {
+      onCountryClick(countryData, event.shiftKey);
+    } else {
+      console.warn('No valid country data found:', countryData);
+    }
+  });
 }
 
 /**
- * Updates the current value key based on the selection.
+ * Sets up all interactions related to the region circles.
  *
- * @param valueKey - The selected key (population or land area)
+ * @param svgElement - The parent SVG element
+ * @param onRegionClick - Callback function when a region circle is clicked
  */
-export function setCurrentValueKey(
-  valueKey: 'population' | 'landAreaKM2'
+export function setupRegionClickInteractions(
+  svgElement: SVGSVGElement,
+  onRegionClick: (regionName: string) => void
 ): void {
-  currentValueKey = valueKey;
+  d3.select(svgElement).on('click.region', (event: MouseEvent) => {
+    const d = getClickedNode(event);
+    if (!d || !d.children) return;
+
+    onRegionClick(d.data.name);
+  });
 }
 
 /**
- * Gets the current value key and returns it.
+ * Sets up click events on the chart background (anywhere that is not a node or the toggle).
+ *
+ * @param svgElement - The parent SVG element
+ * @param onBackgroundClick - Callback function when the background is clicked
  */
-export function getCurrentValueKey(): 'population' | 'landAreaKM2' {
-  return currentValueKey;
+export function setupBackgroundClickInteractions(
+  svgElement: SVGSVGElement,
+  onBackgroundClick: () => void
+): void {
+  d3.select(svgElement).on('click.background', (event: MouseEvent) => {
+    if (findClosest(event, 'g.node, .value-toggle') || getClickedNode(event)) {
+      return;
+    }
+    onBackgroundClick();
+  });
 }
 
 /**
- * Sets up all interactions related to the country leaf nodes.
+ * Sets up keyboard navigation of the nodes, which are exposed as a tree. Only one node is in the
+ * tab order at a time (roving tabindex): the up and down arrow keys move through the nodes in
+ * tree order, right moves into a region, left moves out to the parent region, and Enter or Space
+ * acts as a click on the node (with Shift, adds the country to the comparison).
  *
  * @param svgElement - The parent SVG element
- * @param onCountryClick - Callback function when a country node is clicked
+ * @param onCountrySelect - Callback function when a country node is activated
+ * @param onRegionSelect - Callback function when a region circle is activated
  */
-export function setupCountryClickInteractions(
+export function setupKeyboardInteractions(
   svgElement: SVGSVGElement,
-  onCountryClick: (countryData: any) => void
+  onCountrySelect: (countryData: NodeData, addToComparison: boolean) => void,
+  onRegionSelect: (regionName: string) => void
 ): void {
   const svg = d3.select(svgElement);
 
-  const nodes = svg.selectAll('.node').filter((d: any) => !d.children);
-
-  nodes.style('cursor', 'pointer').on('click', function (event, d: any) {
-    event.stopPropagation();
+  svg.on('keydown.nodes', (event: KeyboardEvent) => {
+    const element = findClosest(event, 'g.node:not(.exiting)');
+    if (!element) return;
 
-    const countryData = d.data;
+    const d = d3
+      .select<Element, d3.HierarchyCircularNode<NodeData>>(element)
+      .datum();
 
-    if (countryData && (countryData.country || countryData.name)) {
-      onCountryClick(countryData);
-    } else {
-      console.warn('No valid country data found:', countryData);
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      if (d.children) {
+        onRegionSelect(d.data.name);
+      } else {
+        onCountrySelect(d.data, event.shiftKey);
+      }
+      return;
     }
+
+    const target = getKeyboardTarget(d, event.key);
+    if (!target) return;
+
+    event.preventDefault();
+    svg
+      .selectAll<SVGGElement, d3.HierarchyCircularNode<NodeData>>(
+        'g.node:not(.exiting)'
+      )
+      .filter((node) => node === target)
+      .node()
+      ?.focus();
+  });
+
+  // Move the tab stop to whichever node receives the focus, by keyboard or by mouse
+  svg.on('focusin.nodes', (event: FocusEvent) => {
+    const element = findClosest(event, 'g.node:not(.exiting)');
+    if (!element) return;
+
+    svg.selectAll('g.node:not(.exiting)').attr('tabindex', -1);
+    d3.select(element).attr('tabindex', 0);
   });
 }
 
 /**
- * Sets up all interactions related to the side drawer.
+ * Returns the node the keyboard focus moves to for a key press, or undefined if it stays put.
  *
- * @param onCloseDrawer - Callback function when the drawer is closed
+ * @param d - The focused node
+ * @param key - The pressed key
  */
-export function setupDrawerInteractions(onCloseDrawer: () => void): void {
-  // Setup close button to close the drawer
-  d3.select('.drawer-close').on('click', function () {
-    onCloseDrawer();
+function getKeyboardTarget(
+  d: d3.HierarchyCircularNode<NodeData>,
+  key: string
+): d3.HierarchyCircularNode<NodeData> | undefined {
+  // All nodes below the root, in depth-first (reading) order
+  const root = d.ancestors()[d.depth];
+  const ordered: d3.HierarchyCircularNode<NodeData>[] = [];
+  root.eachBefore((node) => {
+    if (node !== root) ordered.push(node);
   });
+  const index = ordered.indexOf(d);
 
-  // Setup overlay click to close the drawer
-  d3.select('.drawer-overlay').on('click', function () {
-    onCloseDrawer();
-  });
+  switch (key) {
+    case 'ArrowDown':
+      return ordered[index + 1];
+    case 'ArrowUp':
+      return ordered[index - 1];
+    case 'ArrowRight':
+      return d.children?.[0];
+    case 'ArrowLeft':
+      return d.parent && d.parent !== root ? d.parent : undefined;
+    case 'Home':
+      return ordered[0];
+    case 'End':
+      return ordered[ordered.length - 1];
+    default:
+      return undefined;
+  }
+}
 
-  // Prevent clicks inside drawer content from closing the drawer
-  d3.select('.drawer-body').on('click', function (event) {
-    event.stopPropagation();
-  });
+/**
+ * Returns the closest element to the event target (including itself) matching the selector.
+ */
+function findClosest(event: Event, selector: string): Element | null {
+  return event.target instanceof Element
+    ? event.target.closest(selector)
+    : null;
+}
+
+/**
+ * Returns the node whose circle or label was clicked. Nodes that are transitioning out of the
+ * chart are ignored.
+ */
+function getClickedNode(
+  event: MouseEvent
+): d3.HierarchyCircularNode<NodeData> | undefined {
+  const element = findClosest(event, 'g.node:not(.exiting)');
+  if (!element) {
+    const hitTester =
+      event.currentTarget instanceof Element
+        ? hitTesters.get(event.currentTarget)
+        : undefined;
+    return hitTester?.(event);
+  }
+
+  return d3
+    .select<Element, d3.HierarchyCircularNode<NodeData>>(element)
+    .datum();
+}
+
+/**
+ * Registers how to find the node under the pointer for a chart whose nodes are drawn on a canvas,
+ * and so have no elements of their own to receive events.
+ *
+ * @param svgElement - The parent SVG element
+ * @param hitTester - Returns the node under the pointer of an event, or null to remove it
+ */
+export function setNodeHitTester(
+  svgElement: SVGSVGElement,
+  hitTester: NodeHitTester | null
+): void {
+  if (hitTester) {
+    hitTesters.set(svgElement, hitTester);
+  } else {
+    hitTesters.delete(svgElement);
+  }
 }
 
 /**
@@ -134,38 +307,37 @@ export function setupDrawerInteractions(onCloseDrawer: () => void): void {
  *
  * @param nodeSelection - D3 selection of node groups
  * @param size
+ * @param tooltip - The chart's tooltip element, positioned relative to its parent container
+ * @param getTooltipText - Returns the tooltip text of a node, one line per entry
+ * @param getTheme - Returns the current theme, whose fill opacities the hovered country moves between
  */
 export function addNodeHoverEffects(
   nodeSelection: d3.Selection<
-    SVGGElement | d3.BaseType,
+    SVGGElement,
     d3.HierarchyCircularNode<NodeData>,
     SVGGElement,
     unknown
   >,
-  size: number
+  size: number,
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  getTooltipText: (d: d3.HierarchyCircularNode<NodeData>) => string,
+  getTheme: () => ChartTheme
 ): void {
-  d3.select('body').classed('d3-circular-pack', true);
-  const tooltip = d3.select('body').append('div').attr('class', 'tooltip');
-
   nodeSelection
     .on('mouseover', function (event: MouseEvent, d: any) {
       const node = d3.select(this);
       const circle = node.select('circle');
 
       // Show tooltip for region circle and country leaf nodes
-      const tooltipText = d.data.name;
-      tooltip
-        .style('visibility', 'visible')
-        .html(tooltipText.replace(/\n/g, '<br>'))
-        .style('left', event.pageX + 10 + 'px')
-        .style('top', event.pageY - 10 + 'px');
+      showTooltip(tooltip, getTooltipText(d));
+      moveTooltip(tooltip, event);
 
       // For country nodes, make the circle stroke thicker
       if (!d.children) {
         circle
           .transition()
           .duration(200)
-          .attr('fill-opacity', 0.8)
+          .attr('fill-opacity', getTheme().hoverFillOpacity)
           .attr('stroke-width', () => {
             const baseWidth = Math.max(0.5, size * 0.001);
             return baseWidth * 3;
@@ -190,9 +362,7 @@ export function addNodeHoverEffects(
     })
     .on('mousemove', function (event: MouseEvent) {
       // Update tooltip position
-      tooltip
-        .style('left', event.pageX + 10 + 'px')
-        .style('top', event.pageY - 10 + 'px');
+      moveTooltip(tooltip, event);
     })
     .on('mouseout', function (event: MouseEvent, d: any) {
       const node = d3.select(this);
@@ -206,7 +376,7 @@ export function addNodeHoverEffects(
         circle
           .transition()
           .duration(200)
-          .attr('fill-opacity', 0.5)
+          .attr('fill-opacity', getTheme().countryFillOpacity)
           .attr('stroke-width', () => {
             const baseWidth = Math.max(0.5, size * 0.001);
             return baseWidth;
@@ -214,3 +384,72 @@ export function addNodeHoverEffects(
       }
     });
 }
+
+/**
+ * Handles mouseover events of a chart whose nodes are drawn on a canvas: finds the node under the
+ * pointer and shows its tooltip.
+ *
+ * @param svgElement - The parent SVG element, drawn over the canvas
+ * @param hitTester - Returns the node under the pointer of an event
+ * @param tooltip - The chart's tooltip element, positioned relative to its parent container
+ * @param getTooltipText - Returns the tooltip text of a node, one line per entry
+ * @param onHover - Callback function when the hovered node changes, with null when no node is hovered
+ */
+export function addCanvasHoverEffects(
+  svgElement: SVGSVGElement,
+  hitTester: NodeHitTester,
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  getTooltipText: (d: d3.HierarchyCircularNode<NodeData>) => string,
+  onHover: (d: d3.HierarchyCircularNode<NodeData> | null) => void
+): void {
+  const svg = d3.select(svgElement);
+  let hovered: d3.HierarchyCircularNode<NodeData> | null = null;
+
+  const setHovered = (d: d3.HierarchyCircularNode<NodeData> | null) => {
+    if (d === hovered) return;
+    hovered = d;
+
+    if (d) {
+      svg.style('cursor', 'pointer');
+      showTooltip(tooltip, getTooltipText(d));
+    } else {
+      svg.style('cursor', null);
+      tooltip.style('visibility', 'hidden');
+    }
+    onHover(d);
+  };
+
+  svg
+    .on('mousemove.canvas', (event: MouseEvent) => {
+      setHovered(hitTester(event) ?? null);
+      if (hovered) moveTooltip(tooltip, event);
+    })
+    .on('mouseleave.canvas', () => setHovered(null));
+}
+
+/**
+ * Shows the tooltip with one line per entry of its text. The lines are set as text, not HTML, as
+ * node names come from user-chosen files and URLs.
+ */
+function showTooltip(
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  text: string
+): void {
+  tooltip.style('visibility', 'visible').text('');
+  tooltip
+    .selectAll('div')
+    .data(text.split('\n'))
+    .join('div')
+    .text((line) => line);
+}
+
+/**
+ * Moves the tooltip next to the pointer.
+ */
+function moveTooltip(
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  event: MouseEvent
+): void {
+  const [x, y] = d3.pointer(event, tooltip.node()?.parentElement ?? undefined);
+  tooltip.style('left', x + 10 + 'px').style('top', y - 10 + 'px');
+}
@@ -0,0 +1,144 @@
+import { NodeData } from '../shared/types';
+import { computeLayout, createHierarchy } from './layout';
+import {
+  LayoutRequest,
+  LayoutWorkerRequest,
+  LayoutWorkerResponse,
+  SyncLayoutEngine,
+  WorkerLayoutEngine,
+} from './layout-engine';
+
+describe('layout engines', () => {
+  const data: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          { name: 'Norway', metrics: { population: 5 } },
+          { name: 'Denmark', metrics: { population: 6 } },
+        ],
+      },
+      {
+        name: 'Southern Europe',
+        children: [{ name: 'Italy', metrics: { population: 59 } }],
+      },
+    ],
+  };
+  const request: LayoutRequest = {
+    data,
+    valueKey: 'population',
+    width: 600,
+    height: 400,
+  };
+  const expected = computeLayout(createHierarchy(data, 'population'), 600, 400);
+
+  it('should compute synchronously on the main thread', () => {
+    let result: Float64Array | undefined;
+    new SyncLayoutEngine().compute(
+      request,
+      (positions) => (result = positions)
+    );
+
+    expect(result).toEqual(expected);
+  });
+
+  describe('in a worker', () => {
+    let engine: WorkerLayoutEngine;
+
+    beforeEach(() => (engine = new WorkerLayoutEngine()));
+    afterEach(() => engine.destroy());
+
+    const computeNext = (next: LayoutRequest) =>
+      new Promise<Float64Array>((resolve) => engine.compute(next, resolve));
+
+    it('should compute the same layout as the main thread', async () => {
+      expect(await computeNext(request)).toEqual(expected);
+    });
+
+    it('should only call back for the latest request', async () => {
+      const stale = jasmine.createSpy('stale');
+      engine.compute(request, stale);
+      const latest = await computeNext({ ...request, width: 300 });
+
+      expect(stale).not.toHaveBeenCalled();
+      expect(latest).toEqual(
+        computeLayout(createHierarchy(data, 'population'), 300, 400)
+      );
+    });
+
+    it('should not call back for a cancelled request', async () => {
+      const cancelled = jasmine.createSpy('cancelled');
+      engine.compute(request, cancelled);
+      engine.cancel();
+
+      // Requests are answered in order, so the cancelled one has been answered by then
+      await computeNext({ ...request, width: 200 });
+
+      expect(cancelled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('in a worker that fails', () => {
+    type Respond = (
+      request: LayoutWorkerRequest
+    ) => LayoutWorkerResponse | null;
+
+    /**
+     * Stands in for the layout worker, answering requests with the given response, or with an
+     * error event when there is none.
+     */
+    class StubWorker {
+      public onmessage: ((event: MessageEvent) => void) | null = null;
+      public onerror: ((event: Event) => void) | null = null;
+      public isTerminated = false;
+
+      constructor(private respond: Respond) {}
+
+      public postMessage(request: LayoutWorkerRequest): void {
+        const data = this.respond(request);
+        setTimeout(() =>
+          data
+            ? this.onmessage?.(new MessageEvent('message', { data }))
+            : this.onerror?.(new Event('error'))
+        );
+      }
+
+      public terminate(): void {
+        this.isTerminated = true;
+      }
+    }
+
+    let worker: StubWorker;
+
+    const createEngine = (respond: Respond) => {
+      worker = new StubWorker(respond);
+      return new WorkerLayoutEngine(worker as unknown as Worker);
+    };
+
+    const computeNext = (engine: WorkerLayoutEngine, next: LayoutRequest) =>
+      new Promise<Float64Array>((resolve, reject) =>
+        engine.compute(next, resolve, reject)
+      );
+
+    it('should compute on the main thread when the worker responds with an error', async () => {
+      const engine = createEngine(({ id }) => ({ id, error: 'Error: failed' }));
+
+      expect(await computeNext(engine, request)).toEqual(expected);
+    });
+
+    it('should report a layout that cannot be computed on the main thread either', async () => {
+      const engine = createEngine(({ id }) => ({ id, error: 'Error: failed' }));
+      const invalid = { ...request, data: null as unknown as NodeData };
+
+      await expectAsync(computeNext(engine, invalid)).toBeRejected();
+    });
+
+    it('should stop using a worker that cannot run', async () => {
+      const engine = createEngine(() => null);
+
+      expect(await computeNext(engine, request)).toEqual(expected);
+      expect(worker.isTerminated).toBeTrue();
+    });
+  });
+});
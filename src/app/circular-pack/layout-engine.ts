@@ -0,0 +1,227 @@
+/**
+ * Handles scheduling of layout computations: in a Web Worker, so that large hierarchies do not
+ * block the main thread, or synchronously on the main thread as a fallback (e.g. in tests)
+ */
+
+import { GroupPlacement, MetricKey, NodeData } from '../shared/types';
+import { LayoutType, computeLayout, createHierarchy } from './layout';
+
+/**
+ * Where layouts are computed: in a Web Worker, or synchronously on the main thread.
+ */
+export type LayoutMode = 'worker' | 'sync';
+
+export interface LayoutRequest {
+  data: NodeData;
+  valueKey: MetricKey;
+  width: number;
+  height: number;
+  placement?: GroupPlacement;
+  type?: LayoutType;
+}
+
+/**
+ * Message sent to the layout worker. The data is left out when it is unchanged since the previous
+ * request, so that resizes do not copy the whole hierarchy.
+ */
+export type LayoutWorkerRequest = Omit<LayoutRequest, 'data'> & {
+  id: number;
+  data?: NodeData;
+};
+
+/**
+ * Message sent back by the layout worker: the computed layout, or why it could not be computed.
+ */
+export type LayoutWorkerResponse =
+  { id: number; positions: Float64Array } | { id: number; error: string };
+
+export interface LayoutEngine {
+  /**
+   * Computes a layout. A newer request supersedes any request still in progress, whose callback is
+   * then never called.
+   *
+   * @param request - The data, metric, size, group placement and layout type to lay out
+   * @param onResult - Callback function with the layout, as returned by `computeLayout`
+   * @param onError - Callback function with the error when the layout cannot be computed. Without
+   * it, the error is thrown, or logged when the layout is computed asynchronously.
+   */
+  compute(
+    request: LayoutRequest,
+    onResult: (positions: Float64Array) => void,
+    onError?: (error: unknown) => void
+  ): void;
+
+  /**
+   * Cancels the request in progress, if any.
+   */
+  cancel(): void;
+
+  destroy(): void;
+}
+
+/**
+ * Computes layouts on the main thread, calling back before `compute` returns.
+ */
+export class SyncLayoutEngine implements LayoutEngine {
+  public compute(
+    request: LayoutRequest,
+    onResult: (positions: Float64Array) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    let positions: Float64Array;
+    try {
+      positions = computeLayout(
+        createHierarchy(request.data, request.valueKey),
+        request.width,
+        request.height,
+        request.placement,
+        request.type
+      );
+    } catch (error) {
+      if (!onError) throw error;
+      onError(error);
+      return;
+    }
+    onResult(positions);
+  }
+
+  public cancel(): void {}
+
+  public destroy(): void {}
+}
+
+/**
+ * Computes layouts in a Web Worker. Responses to superseded requests are dropped, and the worker
+ * itself skips requests that were superseded before it got to them. Requests the worker fails to
+ * compute are computed on the main thread, and reported to the caller if they fail there too.
+ */
+export class WorkerLayoutEngine implements LayoutEngine {
+  private worker: Worker;
+  private latestId = 0;
+  private onResult: ((positions: Float64Array) => void) | null = null;
+  private onError: ((error: unknown) => void) | undefined;
+  private latestRequest: LayoutRequest | null = null;
+  // Data the worker holds from a previous request
+  private sentData: NodeData | null = null;
+  private readonly fallback = new SyncLayoutEngine();
+  // Set when the worker cannot run, e.g. when blocked by a content security policy
+  private isWorkerFailed = false;
+
+  /**
+   * @param worker - The worker computing the layouts, e.g. a stub in tests
+   */
+  constructor(
+    worker: Worker = new Worker(new URL('./layout.worker', import.meta.url), {
+      type: 'module',
+    })
+  ) {
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) =>
+      this.onResponse(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.useFallback();
+    };
+  }
+
+  public compute(
+    request: LayoutRequest,
+    onResult: (positions: Float64Array) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    if (this.isWorkerFailed) {
+      this.computeOnMainThread(request, onResult, onError);
+      return;
+    }
+
+    const message: LayoutWorkerRequest = {
+      id: ++this.latestId,
+      valueKey: request.valueKey,
+      width: request.width,
+      height: request.height,
+      placement: request.placement,
+      type: request.type,
+      data: request.data === this.sentData ? undefined : request.data,
+    };
+    this.latestRequest = request;
+    this.onResult = onResult;
+    this.onError = onError;
+    this.sentData = request.data;
+    this.worker.postMessage(message);
+  }
+
+  public cancel(): void {
+    this.latestId++;
+    this.latestRequest = null;
+    this.onResult = null;
+    this.onError = undefined;
+  }
+
+  public destroy(): void {
+    this.cancel();
+    this.worker.terminate();
+  }
+
+  private onResponse(response: LayoutWorkerResponse): void {
+    // Responses to superseded or cancelled requests are stale
+    if (response.id !== this.latestId || !this.onResult) return;
+
+    const { latestRequest: request, onResult, onError } = this;
+    this.cancel();
+
+    if ('error' in response) {
+      console.warn(
+        'Layout worker could not compute the layout, computing it on the main thread:',
+        response.error
+      );
+      if (request) this.computeOnMainThread(request, onResult, onError);
+      return;
+    }
+    onResult(response.positions);
+  }
+
+  /**
+   * Stops using the worker and computes the pending request, if any, on the main thread.
+   */
+  private useFallback(): void {
+    console.warn('Layout worker failed, computing layouts on the main thread.');
+    this.worker.terminate();
+    this.isWorkerFailed = true;
+
+    const { latestRequest: request, onResult, onError } = this;
+    this.cancel();
+    if (request && onResult) {
+      this.computeOnMainThread(request, onResult, onError);
+    }
+  }
+
+  /**
+   * Computes a layout with the fallback engine. As the worker engine calls back asynchronously,
+   * errors are logged rather than thrown when the caller does not handle them.
+   */
+  private computeOnMainThread(
+    request: LayoutRequest,
+    onResult: (positions: Float64Array) => void,
+    onError: ((error: unknown) => void) | undefined
+  ): void {
+    this.fallback.compute(
+      request,
+      onResult,
+      onError ??
+        ((error) => console.error('Layout could not be computed:', error))
+    );
+  }
+}
+
+/**
+ * Creates a layout engine. Workers fall back to the main thread where Web Workers are not
+ * supported.
+ *
+ * @param mode - Where to compute layouts
+ * @returns The layout engine
+ */
+export function createLayoutEngine(mode: LayoutMode): LayoutEngine {
+  return mode === 'worker' && typeof Worker !== 'undefined'
+    ? new WorkerLayoutEngine()
+    : new SyncLayoutEngine();
+}
@@ -0,0 +1,165 @@
+import { NodeData } from '../shared/types';
+import { computeDerivedMetrics } from '../utils/derived-metrics';
+import { EUROPE_GROUP_PLACEMENT } from '../utils/group-placement';
+import { MetricRegistry } from '../utils/metrics';
+import { applyLayout, computeLayout, createHierarchy } from './layout';
+
+describe('layout', () => {
+  const data: NodeData = {
+    name: 'Europe',
+    children: ['Northern', 'Western', 'Eastern', 'Southern'].map(
+      (region, i) => ({
+        name: `${region} Europe`,
+        children: [1, 2, 3].map((country) => ({
+          name: `${region} ${country}`,
+          metrics: { population: (i + 1) * country },
+        })),
+      })
+    ),
+  };
+
+  it('should return the x, y and r of every node', () => {
+    const root = createHierarchy(data, 'population');
+    const positions = computeLayout(root, 600, 400);
+
+    expect(positions.length).toBe(root.descendants().length * 3);
+    expect(positions.every(Number.isFinite)).toBeTrue();
+  });
+
+  it('should apply a layout to another hierarchy of the same data', () => {
+    const positions = computeLayout(
+      createHierarchy(data, 'population'),
+      600,
+      400
+    );
+    const nodes = applyLayout(
+      createHierarchy(structuredClone(data), 'population'),
+      positions
+    );
+    const southern = nodes.find((node) => node.data.name === 'Southern 3')!;
+    const index = nodes.indexOf(southern) * 3;
+
+    expect([southern.x, southern.y, southern.r]).toEqual([
+      positions[index],
+      positions[index + 1],
+      positions[index + 2],
+    ]);
+  });
+
+  it('should size the regions by the summed values of a derived metric', () => {
+    const root = createHierarchy(
+      computeDerivedMetrics(structuredClone(data), new MetricRegistry()),
+      'regionShare'
+    );
+
+    root.children!.forEach((region) => expect(region.value).toBeCloseTo(1));
+    expect(root.value).toBeCloseTo(4);
+  });
+
+  it('should reject a layout of other data', () => {
+    const positions = computeLayout(
+      createHierarchy(data, 'population'),
+      600,
+      400
+    );
+
+    expect(() =>
+      applyLayout(createHierarchy(data.children![0], 'population'), positions)
+    ).toThrowError(/does not match/);
+  });
+
+  it('should place the European regions in their quadrants', () => {
+    const nodes = applyLayout(
+      createHierarchy(data, 'population'),
+      computeLayout(
+        createHierarchy(data, 'population'),
+        600,
+        400,
+        EUROPE_GROUP_PLACEMENT
+      )
+    );
+    const region = (name: string) =>
+      nodes.find((node) => node.data.name === name)!;
+
+    expect(region('Northern Europe').y).toBeLessThan(200);
+    expect(region('Southern Europe').y).toBeGreaterThan(200);
+    expect(region('Western Europe').x).toBeLessThan(300);
+    expect(region('Eastern Europe').x).toBeGreaterThan(300);
+  });
+
+  describe('on a map', () => {
+    const cities: NodeData = {
+      name: 'Europe',
+      children: [
+        {
+          name: 'West',
+          children: [
+            { name: 'Lisbon', lat: 38.7, long: -9.1, metrics: { size: 5 } },
+            { name: 'Paris', lat: 48.9, long: 2.4, metrics: { size: 9 } },
+          ],
+        },
+        {
+          name: 'East',
+          children: [
+            { name: 'Warsaw', lat: 52.2, long: 21, metrics: { size: 6 } },
+            { name: 'Athens', lat: 38, long: 23.7, metrics: { size: 4 } },
+            { name: 'Unknown', metrics: { size: 1 } },
+          ],
+        },
+      ],
+    };
+
+    const layOut = (data: NodeData) =>
+      applyLayout(
+        createHierarchy(data, 'size'),
+        computeLayout(createHierarchy(data, 'size'), 600, 400, undefined, 'geo')
+      );
+
+    it('should position the countries by their coordinates', () => {
+      const nodes = layOut(cities);
+      const city = (name: string) =>
+        nodes.find((node) => node.data.name === name)!;
+
+      expect(city('Lisbon').x).toBeLessThan(city('Paris').x);
+      expect(city('Paris').x).toBeLessThan(city('Warsaw').x);
+      expect(city('Warsaw').y).toBeLessThan(city('Athens').y);
+    });
+
+    it('should keep the circles apart and within the pack area', () => {
+      const leaves = layOut(cities).filter((node) => !node.children);
+
+      leaves.forEach((a, i) => {
+        expect(a.x - a.r).toBeGreaterThanOrEqual(0);
+        expect(a.x + a.r).toBeLessThanOrEqual(600);
+        expect(a.y - a.r).toBeGreaterThanOrEqual(0);
+        expect(a.y + a.r).toBeLessThanOrEqual(400);
+        leaves.slice(i + 1).forEach((b) => {
+          expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(
+            a.r + b.r - 1e-6
+          );
+        });
+      });
+    });
+
+    it('should enclose the countries in their regions', () => {
+      const nodes = layOut(cities);
+
+      nodes
+        .filter((node) => node.depth === 2)
+        .forEach((node) => {
+          const region = node.parent!;
+          expect(
+            Math.hypot(node.x - region.x, node.y - region.y) + node.r
+          ).toBeLessThanOrEqual(region.r + 1e-6);
+        });
+    });
+
+    it('should keep the pack layout of data without coordinates', () => {
+      const root = createHierarchy(data, 'population');
+
+      expect(
+        computeLayout(root, 600, 400, EUROPE_GROUP_PLACEMENT, 'geo')
+      ).toEqual(computeLayout(root, 600, 400, EUROPE_GROUP_PLACEMENT));
+    });
+  });
+});
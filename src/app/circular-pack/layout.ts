@@ -0,0 +1,281 @@
+/**
+ * Handles computation of the pack layout: packing of the hierarchy and custom positioning of the
+ * region circles, or positioning of the countries on a map. Runs in the layout worker or, as a
+ * fallback, on the main thread.
+ */
+
+import * as d3 from 'd3';
+import { GroupPlacement, MetricKey, NodeData } from '../shared/types';
+import { placeGroups } from '../utils/group-placement';
+
+// Number of values stored per node in a computed layout: x, y and r
+const VALUES_PER_NODE = 3;
+// Share of the packed radii kept on the map, where the circles are spread out and pushed apart
+const GEO_RADIUS_SCALE = 0.75;
+// Number of simulation ticks resolving overlaps between the circles on the map
+const GEO_TICKS = 300;
+
+/**
+ * How the nodes are laid out: packed within their regions, or each country at its geographic
+ * centroid on a map of Europe.
+ */
+export type LayoutType = 'pack' | 'geo';
+
+interface GeoNode extends d3.SimulationNodeDatum {
+  r: number;
+  targetX: number;
+  targetY: number;
+}
+
+/**
+ * Creates the hierarchy the layout is computed on: nodes are sized by the metric and sorted
+ * largest first.
+ *
+ * @param data - The data to be visualised
+ * @param valueKey - Key of the metric that sizes the circles
+ * @returns The root node
+ */
+export function createHierarchy(
+  data: NodeData,
+  valueKey: MetricKey
+): d3.HierarchyNode<NodeData> {
+  return d3
+    .hierarchy<NodeData>(data)
+    .sum((d) => d.metrics?.[valueKey] ?? 0)
+    .sort((a, b) => (b.value || 0) - (a.value || 0));
+}
+
+/**
+ * Packs a hierarchy into the given size and positions its region circles, or its leaves on a map.
+ *
+ * @remarks
+ * The layout is returned as plain numbers rather than nodes, so that it can be transferred from the
+ * layout worker. Hierarchies created from the same data and metric have their nodes in the same
+ * order, so the layout can be applied to a hierarchy on the main thread with {@link applyLayout}.
+ * @param root - The root node, its nodes are given their computed positions
+ * @param width - Pack width
+ * @param height - Pack height
+ * @param placement - Where to place each region around the centre, optional
+ * @param type - Whether to pack the nodes or to position the leaves on a map, defaults to packing
+ * @returns The x, y and r of each node, in the order of `root.descendants()`
+ */
+export function computeLayout(
+  root: d3.HierarchyNode<NodeData>,
+  width: number,
+  height: number,
+  placement?: GroupPlacement,
+  type: LayoutType = 'pack'
+): Float64Array {
+  const pack = d3
+    .pack<NodeData>()
+    .size([width, height])
+    .padding(Math.max(2, Math.min(width, height) * 0.01));
+
+  const nodes = pack(root).descendants();
+
+  // Move the packed circles onto the map, or apply custom positioning of the region circles
+  if (type !== 'geo' || !positionOnMap(nodes, width, height)) {
+    positionRegionCircles(nodes, width, height, placement);
+  }
+
+  const positions = new Float64Array(nodes.length * VALUES_PER_NODE);
+  nodes.forEach((node, i) => {
+    positions.set([node.x, node.y, node.r], i * VALUES_PER_NODE);
+  });
+  return positions;
+}
+
+/**
+ * Gives the nodes of a hierarchy the positions of a computed layout.
+ *
+ * @param root - The root node, created from the same data and metric as the layout
+ * @param positions - The layout computed by {@link computeLayout}
+ * @returns The laid out nodes, root first
+ */
+export function applyLayout(
+  root: d3.HierarchyNode<NodeData>,
+  positions: Float64Array
+): d3.HierarchyCircularNode<NodeData>[] {
+  const nodes = root.descendants() as d3.HierarchyCircularNode<NodeData>[];
+  if (positions.length !== nodes.length * VALUES_PER_NODE) {
+    throw new Error('Layout does not match the hierarchy');
+  }
+
+  nodes.forEach((node, i) => {
+    node.x = positions[i * VALUES_PER_NODE];
+    node.y = positions[i * VALUES_PER_NODE + 1];
+    node.r = positions[i * VALUES_PER_NODE + 2];
+  });
+  return nodes;
+}
+
+/**
+ * Positions the region circles around the centre of the pack, moving their descendants with them.
+ *
+ * @param nodes - The packed nodes, root first
+ * @param packWidth - Width of the circular pack element
+ * @param packHeight - Height of the circular pack element
+ * @param placement - Where to place each region, optional
+ */
+function positionRegionCircles(
+  nodes: d3.HierarchyCircularNode<NodeData>[],
+  packWidth: number,
+  packHeight: number,
+  placement?: GroupPlacement
+): void {
+  const regionNodes = nodes.filter((d) => d.depth === 1);
+  if (regionNodes.length === 0) return;
+
+  const positions = placeGroups(
+    regionNodes.map((regionNode) => ({
+      name: regionNode.data.name,
+      x: regionNode.x,
+      y: regionNode.y,
+      r: regionNode.r,
+    })),
+    packWidth,
+    packHeight,
+    placement
+  );
+
+  regionNodes.forEach((regionNode) => {
+    const newPos = positions.get(regionNode.data.name);
+    if (!newPos) {
+      throw new Error('Node position could not be calculated');
+    }
+
+    // Move the region circle with its descendants, which keep their positions within it
+    const offsetX = newPos.x - regionNode.x;
+    const offsetY = newPos.y - regionNode.y;
+    regionNode.each((node) => {
+      node.x += offsetX;
+      node.y += offsetY;
+    });
+  });
+}
+
+/**
+ * Positions the leaf circles at their geographic centroids, on a conic conformal projection fitted
+ * to the pack area, and encloses each group's circles in its group circle.
+ *
+ * @remarks
+ * Leaves keep their packed radii, scaled down so that the map is not too crowded, and a force
+ * simulation pulls each leaf towards its centroid while pushing overlapping leaves apart. Leaves
+ * without coordinates use those of their closest ancestor with coordinates, or otherwise the mean
+ * position of the other leaves of their parent.
+ * @param nodes - The packed nodes, root first
+ * @param width - Width of the circular pack element
+ * @param height - Height of the circular pack element
+ * @returns False if no node has coordinates, in which case the nodes are left unchanged
+ */
+function positionOnMap(
+  nodes: d3.HierarchyCircularNode<NodeData>[],
+  width: number,
+  height: number
+): boolean {
+  const leaves = nodes.filter((node) => !node.children);
+  const coordinates = leaves.map(getCoordinates);
+  const located = coordinates.filter(
+    (coordinate): coordinate is [number, number] => coordinate !== null
+  );
+  if (located.length === 0) return false;
+
+  const margin = Math.max(2, Math.min(width, height) * 0.01);
+  leaves.forEach((leaf) => {
+    leaf.r *= GEO_RADIUS_SCALE;
+  });
+
+  // Centroids are fitted within the largest radius of the edges, so that the circles fit too
+  const inset = Math.min(
+    margin + (d3.max(leaves, (leaf) => leaf.r) ?? 0),
+    width / 2,
+    height / 2
+  );
+  const projection = d3
+    .geoConicConformal()
+    .parallels([35, 65])
+    .rotate([-d3.mean(located, ([long]) => long)!, 0])
+    .fitExtent(
+      [
+        [inset, inset],
+        [width - inset, height - inset],
+      ],
+      { type: 'MultiPoint', coordinates: located }
+    );
+
+  // A single centroid cannot be fitted, so it is projected to the centre
+  const project = (coordinate: [number, number] | null) => {
+    const point = coordinate && projection(coordinate);
+    return point && point.every(Number.isFinite) ? point : null;
+  };
+  const targets = coordinates.map(project);
+  const centre: [number, number] = [width / 2, height / 2];
+
+  const simulated: GeoNode[] = leaves.map((leaf, i) => {
+    const siblings = targets.filter(
+      (target, j) => target !== null && leaves[j].parent === leaf.parent
+    ) as [number, number][];
+    const [targetX, targetY] =
+      targets[i] ??
+      (siblings.length > 0
+        ? [d3.mean(siblings, ([x]) => x)!, d3.mean(siblings, ([, y]) => y)!]
+        : centre);
+    return { r: leaf.r, x: targetX, y: targetY, targetX, targetY };
+  });
+
+  const simulation = d3
+    .forceSimulation(simulated)
+    .randomSource(d3.randomLcg(0.5))
+    .force('x', d3.forceX<GeoNode>((d) => d.targetX).strength(0.2))
+    .force('y', d3.forceY<GeoNode>((d) => d.targetY).strength(0.2))
+    .force(
+      'collide',
+      d3
+        .forceCollide<GeoNode>((d) => d.r + margin / 2)
+        .strength(1)
+        .iterations(3)
+    )
+    .stop();
+
+  for (let i = 0; i < GEO_TICKS; i++) {
+    simulation.tick();
+    simulated.forEach((d) => {
+      d.x = Math.min(width - d.r, Math.max(d.r, d.x!));
+      d.y = Math.min(height - d.r, Math.max(d.r, d.y!));
+    });
+  }
+
+  leaves.forEach((leaf, i) => {
+    leaf.x = simulated[i].x!;
+    leaf.y = simulated[i].y!;
+  });
+
+  // Group circles enclose their children, deepest first. The root is not drawn, and keeps its
+  // packed circle.
+  [...nodes].reverse().forEach((node) => {
+    if (!node.children || node.depth === 0) return;
+    const enclosing = d3.packEnclose(node.children);
+    node.x = enclosing.x;
+    node.y = enclosing.y;
+    node.r = enclosing.r + margin;
+  });
+  return true;
+}
+
+/**
+ * Returns the coordinates of a node as [longitude, latitude], or those of its closest ancestor with
+ * coordinates. Returns null if neither the node nor its ancestors have coordinates.
+ */
+function getCoordinates(
+  node: d3.HierarchyNode<NodeData>
+): [number, number] | null {
+  for (
+    let current: d3.HierarchyNode<NodeData> | null = node;
+    current;
+    current = current.parent
+  ) {
+    const { lat, long } = current.data;
+    if (lat !== undefined && long !== undefined) return [long, lat];
+  }
+  return null;
+}
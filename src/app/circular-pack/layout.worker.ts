@@ -0,0 +1,66 @@
+/// <reference lib="webworker" />
+
+/**
+ * Web Worker computing pack layouts off the main thread
+ */
+
+import * as d3 from 'd3';
+import { MetricKey, NodeData } from '../shared/types';
+import { computeLayout, createHierarchy } from './layout';
+import type {
+  LayoutWorkerRequest,
+  LayoutWorkerResponse,
+} from './layout-engine';
+
+// Data of the latest request that carried data, and its hierarchy for the current metric
+let data: NodeData | null = null;
+let root: d3.HierarchyNode<NodeData> | null = null;
+let rootValueKey: MetricKey | null = null;
+
+// Latest request not yet computed. Requests arriving while a layout is computed replace it, so
+// only the newest of them is computed.
+let pending: LayoutWorkerRequest | null = null;
+
+addEventListener('message', (event: MessageEvent<LayoutWorkerRequest>) => {
+  const request = event.data;
+  if (request.data) {
+    data = request.data;
+    root = null;
+  }
+
+  if (!pending) setTimeout(computePending);
+  pending = request;
+});
+
+function computePending(): void {
+  const request = pending;
+  pending = null;
+  if (!request) return;
+
+  try {
+    if (!data) throw new Error('No data to lay out.');
+
+    if (!root || rootValueKey !== request.valueKey) {
+      root = createHierarchy(data, request.valueKey);
+      rootValueKey = request.valueKey;
+    }
+
+    const positions = computeLayout(
+      root,
+      request.width,
+      request.height,
+      request.placement,
+      request.type
+    );
+    respond({ id: request.id, positions }, [positions.buffer]);
+  } catch (error) {
+    respond({ id: request.id, error: String(error) });
+  }
+}
+
+function respond(
+  response: LayoutWorkerResponse,
+  transfer: Transferable[] = []
+): void {
+  postMessage(response, transfer);
+}
@@ -0,0 +1,97 @@
+/**
+ * Handles the SVG patterns filling the circles of each top-level group, so that groups can be told
+ * apart without relying on their colours, e.g. in greyscale print
+ */
+
+import * as d3 from 'd3';
+
+export type PatternType = 'hatch' | 'dots' | 'crosshatch' | 'stripes';
+
+// Patterns assigned to the top-level groups in order, repeating for more groups
+export const PATTERN_TYPES: PatternType[] = [
+  'hatch',
+  'dots',
+  'crosshatch',
+  'stripes',
+];
+
+// Size of a pattern tile in the chart's coordinates
+const PATTERN_SIZE = 8;
+
+export interface PatternFill {
+  id: string;
+  type: PatternType;
+  background: string; // Colour of the tile, e.g. the group colour
+  foreground: string; // Colour of the lines and dots
+}
+
+/**
+ * Returns the pattern of the top-level group at an index.
+ *
+ * @param index - Index of the group, e.g. in the domain of the colour scale
+ */
+export function getPatternType(index: number): PatternType {
+  return PATTERN_TYPES[index % PATTERN_TYPES.length];
+}
+
+/**
+ * Draws the patterns in the definitions of an SVG, replacing any previous patterns with the same
+ * ids. Circles use a pattern with `fill="url(#id)"`.
+ *
+ * @param defs - The SVG definitions element
+ * @param patterns - The patterns to draw
+ */
+export function drawPatterns(
+  defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
+  patterns: PatternFill[]
+): void {
+  defs
+    .selectAll<SVGPatternElement, PatternFill>('pattern')
+    .data(patterns, (d) => d.id)
+    .join('pattern')
+    .attr('id', (d) => d.id)
+    .attr('patternUnits', 'userSpaceOnUse')
+    .attr('width', PATTERN_SIZE)
+    .attr('height', PATTERN_SIZE)
+    .each(function (d) {
+      const pattern = d3.select(this);
+      pattern.selectAll('*').remove();
+
+      pattern
+        .append('rect')
+        .attr('width', PATTERN_SIZE)
+        .attr('height', PATTERN_SIZE)
+        .attr('fill', d.background);
+
+      const marks = pattern
+        .append('g')
+        .attr('fill', d.foreground)
+        .attr('stroke', d.foreground)
+        .attr('stroke-width', 1.5);
+
+      const s = PATTERN_SIZE;
+      // Diagonal lines continue across the tile edges through the corner segments
+      const diagonal = `M0,${s} L${s},0 M-2,2 L2,-2 M${s - 2},${s + 2} L${s + 2},${s - 2}`;
+      const antiDiagonal = `M0,0 L${s},${s} M-2,${s - 2} L2,${s + 2} M${s - 2},-2 L${s + 2},2`;
+
+      switch (d.type) {
+        case 'hatch':
+          marks.append('path').attr('d', diagonal);
+          break;
+        case 'crosshatch':
+          marks.append('path').attr('d', `${diagonal} ${antiDiagonal}`);
+          break;
+        case 'stripes':
+          marks.append('path').attr('d', `M0,${s / 2} H${s}`);
+          break;
+        case 'dots':
+          marks
+            .append('circle')
+            .attr('cx', s / 2)
+            .attr('cy', s / 2)
+            .attr('r', 1.5)
+            .attr('stroke', 'none');
+          break;
+      }
+    });
+}
@@ -0,0 +1,112 @@
+/**
+ * Benchmark of the SVG and canvas renderers on generated hierarchies of 1k, 10k and 50k countries.
+ * Not part of the test suite, run it with `npm run benchmark`.
+ */
+
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+import { MetricRegistry } from '../utils/metrics';
+import { ChartRenderer, CircularPackChart } from './chart';
+
+const SIZES = [1000, 10000, 50000];
+const RENDERERS: ChartRenderer[] = ['svg', 'canvas'];
+const GROUP_COUNT = 20;
+// Duration of the layout transition frames are counted over (in milliseconds)
+const TRANSITION_DURATION = 750;
+
+/**
+ * Generates a hierarchy of countries with random metrics, evenly spread over the groups.
+ */
+function generateHierarchy(countryCount: number): NodeData {
+  const random = d3.randomLcg(countryCount);
+
+  return {
+    name: 'World',
+    children: d3.range(GROUP_COUNT).map((group) => ({
+      name: `Region ${group + 1}`,
+      children: d3.range(group, countryCount, GROUP_COUNT).map((country) => ({
+        name: `Country ${country + 1}`,
+        metrics: {
+          population: Math.round(random() * 1e7),
+          landAreaKM2: Math.round(random() * 1e6),
+        },
+      })),
+    })),
+  };
+}
+
+function nextFrame(): Promise<number> {
+  return new Promise((resolve) => requestAnimationFrame(resolve));
+}
+
+/**
+ * Counts the frames drawn until the given time has passed.
+ */
+async function countFrames(duration: number): Promise<number> {
+  const start = performance.now();
+  let frames = 0;
+  while ((await nextFrame()) - start < duration) {
+    frames++;
+  }
+  return frames;
+}
+
+describe('renderer benchmark', () => {
+  const results: Record<string, string | number>[] = [];
+  let container: HTMLDivElement;
+  let svg: SVGSVGElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.style.position = 'relative';
+    svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.style.width = '900px';
+    svg.style.height = '600px';
+    container.appendChild(svg);
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => container.remove());
+
+  afterAll(() => console.table(results));
+
+  SIZES.forEach((size) => {
+    const data = generateHierarchy(size);
+
+    RENDERERS.forEach((renderer) => {
+      it(`should render ${size} countries with ${renderer}`, async () => {
+        const chart = new CircularPackChart(svg, undefined, renderer, 'sync');
+        const config = {
+          width: 900,
+          height: 600,
+          valueKey: 'population',
+          metrics: new MetricRegistry(),
+        };
+
+        // First render, until the first frame is drawn
+        let start = performance.now();
+        chart.render(data, config);
+        await nextFrame();
+        const firstRender = performance.now() - start;
+        await countFrames(TRANSITION_DURATION);
+
+        // Re-render by another metric, counting the frames of the layout transition
+        start = performance.now();
+        chart.render(data, { ...config, valueKey: 'landAreaKM2' });
+        const rerender = performance.now() - start;
+        const frames = await countFrames(TRANSITION_DURATION);
+
+        results.push({
+          countries: size,
+          renderer,
+          'first render (ms)': Math.round(firstRender),
+          're-render (ms)': Math.round(rerender),
+          'transition (fps)': Math.round((frames * 1000) / TRANSITION_DURATION),
+        });
+
+        expect(chart.getLayout().nodes.length).toBe(size + GROUP_COUNT + 1);
+        chart.destroy();
+      }, 300000);
+    });
+  });
+});
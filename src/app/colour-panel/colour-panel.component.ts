@@ -0,0 +1,41 @@
+/**
+ * Handles the colour panel, which picks a colour-blind-safe palette, pattern fills and, in dev mode,
+ * a simulated colour vision to preview the chart with
+ */
+
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { COLOUR_BLIND_SAFE_PALETTES } from '../utils/colours';
+import { COLOUR_VISION_LABELS, ColourVision } from '../utils/colour-vision';
+
+@Component({
+  selector: 'app-colour-panel',
+  templateUrl: './colour-panel.component.html',
+  styleUrls: ['./colour-panel.component.scss'],
+})
+export class ColourPanelComponent {
+  // Name of the colour-blind-safe palette, or null for the colours of the theme
+  @Input() palette: string | null = null;
+  @Input() patternFills = false;
+  // Whether the simulated colour vision can be picked, e.g. in dev mode
+  @Input() showColourVision = false;
+  @Input() colourVision: ColourVision | null = null;
+
+  @Output() paletteChange = new EventEmitter<string | null>();
+  @Output() patternFillsChange = new EventEmitter<boolean>();
+  @Output() colourVisionChange = new EventEmitter<ColourVision | null>();
+
+  protected readonly palettes = Object.entries(COLOUR_BLIND_SAFE_PALETTES).map(
+    ([name, colours]) => ({ name, colours: colours.slice(0, 4) })
+  );
+  protected readonly visions = Object.entries(COLOUR_VISION_LABELS).map(
+    ([value, label]) => ({ value: value as ColourVision, label })
+  );
+
+  /**
+   * Sets the simulated colour vision from the value of its select, empty for normal vision.
+   */
+  protected setColourVision(value: string): void {
+    const vision = this.visions.find((option) => option.value === value);
+    this.colourVisionChange.emit(vision ? vision.value : null);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Handles the sortable table view of the hierarchy, a textual alternative to the chart
+ */
+
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges,
+} from '@angular/core';
+import { MetricKey, NodeData } from '../shared/types';
+import { MetricRegistry } from '../utils/metrics';
+import {
+  GROUP_COLUMN,
+  NAME_COLUMN,
+  SortDirection,
+  TableRow,
+  sortTableRows,
+  toTableRows,
+} from '../utils/table-data';
+
+interface TableColumn {
+  key: string;
+  label: string;
+}
+
+@Component({
+  selector: 'app-data-table',
+  templateUrl: './data-table.component.html',
+  styleUrls: ['./data-table.component.scss'],
+})
+export class DataTableComponent implements OnChanges {
+  @Input({ required: true }) root!: NodeData;
+  @Input() metrics: MetricRegistry = new MetricRegistry();
+  // Metric currently sizing the circles, which the table is sorted on by default
+  @Input() valueKey: MetricKey = 'landAreaKM2';
+  // Focused region of the chart, the table only lists its rows
+  @Input() focusedRegion: string | null = null;
+  // Name of the selected country, which is highlighted
+  @Input() selectedName: string | null = null;
+
+  @Output() countrySelected = new EventEmitter<NodeData>();
+
+  protected rows: TableRow[] = [];
+  protected columns: TableColumn[] = [];
+  protected sortColumn: string = 'landAreaKM2';
+  protected sortDirection: SortDirection = 'descending';
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Follow the chart's metric, largest values first
+    if (changes['valueKey']) {
+      this.sortColumn = this.valueKey;
+      this.sortDirection = 'descending';
+    }
+
+    this.columns = [
+      { key: NAME_COLUMN, label: 'Name' },
+      { key: GROUP_COLUMN, label: 'Region' },
+      ...this.metrics
+        .list()
+        .map((metric) => ({ key: metric.key, label: metric.label })),
+    ];
+    this.updateRows();
+  }
+
+  /**
+   * Sorts the table on a column, or reverses the direction if it is already sorted on it.
+   *
+   * @param column - Key of the column
+   */
+  protected sortBy(column: string): void {
+    if (this.sortColumn === column) {
+      this.sortDirection =
+        this.sortDirection === 'ascending' ? 'descending' : 'ascending';
+    } else {
+      this.sortColumn = column;
+      this.sortDirection =
+        column === NAME_COLUMN || column === GROUP_COLUMN
+          ? 'ascending'
+          : 'descending';
+    }
+    this.updateRows();
+  }
+
+  /**
+   * Returns the formatted value of a metric column of a row, or the name and group columns.
+   */
+  protected getCellText(row: TableRow, column: string): string {
+    if (column === NAME_COLUMN) return row.data.name;
+    if (column === GROUP_COLUMN) return row.group;
+
+    const value = row.data.metrics?.[column];
+    return value === undefined ? '–' : this.metrics.format(column, value);
+  }
+
+  protected getAriaSort(column: string): string {
+    return column === this.sortColumn ? this.sortDirection : 'none';
+  }
+
+  protected get caption(): string {
+    const scope = this.focusedRegion ?? this.root.name;
+    const metric = this.metrics.get(this.valueKey)?.label ?? this.valueKey;
+    return `${scope}: ${this.rows.length} countries, sized by ${metric}`;
+  }
+
+  private updateRows(): void {
+    if (!this.root) {
+      this.rows = [];
+      return;
+    }
+
+    this.rows = sortTableRows(
+      toTableRows(this.root, this.focusedRegion),
+      this.sortColumn,
+      this.sortDirection
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Handles the export panel, which downloads the chart as SVG, PNG or PDF at a chosen size, or its
+ * data and layout as CSV or JSON
+ */
+
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges,
+} from '@angular/core';
+import {
+  ExportFormat,
+  ExportOptions,
+  isDataFormat,
+} from '../circular-pack/export';
+
+@Component({
+  selector: 'app-export-panel',
+  templateUrl: './export-panel.component.html',
+  styleUrls: ['./export-panel.component.scss'],
+})
+export class ExportPanelComponent implements OnChanges {
+  // Default export size in px, e.g. the chart's size on screen
+  @Input() width = 1200;
+  @Input() height = 800;
+  // Whether an export is in progress
+  @Input() isExporting = false;
+
+  @Output() exportRequested = new EventEmitter<ExportOptions>();
+
+  protected readonly formats: { value: ExportFormat; label: string }[] = [
+    { value: 'svg', label: 'SVG' },
+    { value: 'png', label: 'PNG' },
+    { value: 'pdf', label: 'PDF' },
+    { value: 'csv', label: 'CSV data' },
+    { value: 'json', label: 'JSON data' },
+  ];
+  protected readonly scales = [1, 2, 3];
+  protected readonly isDataFormat = isDataFormat;
+
+  protected options: ExportOptions = {
+    format: 'png',
+    width: 1200,
+    height: 800,
+    scale: 2,
+    includeFlags: false,
+  };
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['width'] || changes['height']) {
+      this.options = {
+        ...this.options,
+        width: this.width,
+        height: this.height,
+      };
+    }
+  }
+
+  /**
+   * Updates one of the export options.
+   */
+  protected setOption<K extends keyof ExportOptions>(
+    key: K,
+    value: ExportOptions[K]
+  ): void {
+    this.options = { ...this.options, [key]: value };
+  }
+
+  /**
+   * Sets the width or height from the value of its input, ignoring sizes that are not positive.
+   */
+  protected setSize(key: 'width' | 'height', input: string): void {
+    const size = Math.round(Number(input));
+    if (Number.isFinite(size) && size > 0) {
+      this.setOption(key, size);
+    }
+  }
+
+  protected requestExport(): void {
+    this.exportRequested.emit(this.options);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Handles the filter panel, which limits the chart to countries within metric ranges and regions
+ */
+
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  ChartFilter,
+  MetricDefinition,
+  MetricKey,
+  MetricRange,
+} from '../shared/types';
+import { EMPTY_FILTER, isFilterActive } from '../utils/filter-data';
+
+@Component({
+  selector: 'app-filter-panel',
+  templateUrl: './filter-panel.component.html',
+  styleUrls: ['./filter-panel.component.scss'],
+})
+export class FilterPanelComponent {
+  @Input() filter: ChartFilter = EMPTY_FILTER;
+  // Metrics that can be limited to a range
+  @Input() metrics: MetricDefinition[] = [];
+  // Names of the top-level groups that can be shown or hidden
+  @Input() groups: string[] = [];
+  @Input() shownCount = 0;
+  @Input() totalCount = 0;
+
+  @Output() filterChange = new EventEmitter<ChartFilter>();
+
+  protected get isActive(): boolean {
+    return isFilterActive(this.filter);
+  }
+
+  /**
+   * Returns one end of a metric's range as the value of its input, empty if the end is open.
+   */
+  protected getRangeValue(key: MetricKey, end: keyof MetricRange): string {
+    const value = this.filter.ranges[key]?.[end];
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  /**
+   * Sets one end of a metric's range from the value of its input. Empty or invalid input leaves
+   * that end open.
+   *
+   * @param key - Key of the metric
+   * @param end - Which end of the range to set
+   * @param input - Value of the input
+   */
+  protected setRange(
+    key: MetricKey,
+    end: keyof MetricRange,
+    input: string
+  ): void {
+    const value = input.trim() === '' ? null : Number(input);
+    const range: MetricRange = {
+      ...(this.filter.ranges[key] ?? { min: null, max: null }),
+      [end]: value !== null && Number.isFinite(value) ? value : null,
+    };
+
+    this.filterChange.emit({
+      ...this.filter,
+      ranges: { ...this.filter.ranges, [key]: range },
+    });
+  }
+
+  /**
+   * Shows or hides a top-level group.
+   *
+   * @param group - Name of the group
+   * @param shown - Whether the group is shown
+   */
+  protected setGroupShown(group: string, shown: boolean): void {
+    const hiddenGroups = this.filter.hiddenGroups.filter(
+      (name) => name !== group
+    );
+    if (!shown) hiddenGroups.push(group);
+
+    this.filterChange.emit({ ...this.filter, hiddenGroups });
+  }
+
+  protected reset(): void {
+    this.filterChange.emit(EMPTY_FILTER);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Handles the region summary panel, which shows the totals, averages and country shares of the
+ * focused region
+ */
+
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+import { MetricRegistry } from '../utils/metrics';
+import { RegionSummary } from '../utils/region-summary';
+
+@Component({
+  selector: 'app-region-summary',
+  templateUrl: './region-summary.component.html',
+  styleUrls: ['./region-summary.component.scss'],
+})
+export class RegionSummaryComponent {
+  @Input({ required: true }) summary!: RegionSummary;
+  @Input() metrics: MetricRegistry = new MetricRegistry();
+
+  @Output() countrySelected = new EventEmitter<NodeData>();
+
+  protected readonly formatShare = d3.format('.1%');
+
+  // Label of the metric sizing the circles, which the largest and smallest countries are by
+  protected get valueLabel(): string {
+    return (
+      this.metrics.get(this.summary.valueKey)?.label ?? this.summary.valueKey
+    );
+  }
+
+  /**
+   * Formats a value of a metric for display.
+   */
+  protected format(key: string, value: number): string {
+    return this.metrics.format(key, value);
+  }
+}
@@ -1,10 +1,150 @@
+/**
+ * Key of a numeric metric stored on a node, e.g. 'population' or 'landAreaKM2'.
+ */
+export type MetricKey = string;
+
+/**
+ * Declarative definition of a metric computed from other metrics rather than read from the dataset.
+ */
+export type DerivedMetric =
+  | { type: 'ratio'; numerator: MetricKey; denominator: MetricKey }
+  | { type: 'shareOfParent'; of: MetricKey }
+  | { type: 'shareOfRoot'; of: MetricKey };
+
+/**
+ * Describes a numeric metric that a dataset exposes.
+ */
+export type MetricDefinition = {
+  key: MetricKey;
+  label: string;
+  unit?: string;
+  field?: string; // Field name in the raw dataset, defaults to the key
+  derive?: DerivedMetric; // Set for metrics computed at transform time
+  format?: (value: number) => string;
+};
+
+/**
+ * Colours of the top-level groups: a mapping of group names to colours, or a palette assigned to
+ * groups in order.
+ */
+export type ColourScheme = Record<string, string> | string[];
+
+/**
+ * Colours and opacities the chart is drawn with. The colours of the text, controls and panels are
+ * applied as CSS custom properties (e.g. `--chart-text`), so that themes switch without a re-layout.
+ */
+export interface ChartTheme {
+  // Colours of the top-level groups, unless the chart is given its own colour scheme
+  palette: ColourScheme;
+  background: string; // Chart area, panels, tooltip and drawer
+  surface: string; // Toggle and buttons
+  border: string;
+  text: string;
+  mutedText: string; // Inactive toggle labels and secondary text
+  accent: string; // Toggle slider and pressed buttons
+  accentText: string; // Text on the accent colour
+  highlight: string; // Outline of search matches and focused nodes
+  colorScheme: 'light' | 'dark'; // Colour scheme of the form controls and scrollbars
+  regionFillOpacity: number;
+  countryFillOpacity: number;
+  hoverFillOpacity: number; // Fill opacity of the country under the pointer
+  // How much darker the outlines of region and country circles are than their fill, as d3's
+  // `darker` factor; negative values make them lighter, e.g. on dark backgrounds
+  regionStrokeShade: number;
+  countryStrokeShade: number;
+}
+
+/**
+ * Names of the built-in themes.
+ */
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
 export type NodeData = {
   name: string;
-  population?: number;
   wikipedia?: string;
   flag?: string;
-  landAreaKM2?: number;
+  lat?: number; // Geographic centroid in degrees, positions the node in the map layout
+  long?: number;
+  metrics?: Record<MetricKey, number>;
+  // Metric values by year, for data over time; `metrics` then holds the values of the latest year
+  series?: Record<MetricKey, Record<number, number>>;
+  metadata?: Record<string, string | number>;
   children?: NodeData[];
 };
 
-export type CountryRawData = Record<string, Array<Record<string, unknown>>>;
+/**
+ * Geographic position of a group, in degrees.
+ */
+export type Centroid = {
+  lat: number;
+  long: number;
+};
+
+/**
+ * Where the top-level groups are placed around the centre of the chart: in the directions of their
+ * geographic centroids from each other, or clockwise from the top in the given order of names.
+ */
+export type GroupPlacement =
+  | { type: 'centroids'; centroids: Record<string, Centroid> }
+  | { type: 'order'; order: string[] };
+
+/**
+ * Describes which fields of a raw dataset hold a node's name, values and metadata.
+ */
+export type HierarchyMapping = {
+  name: string; // Field holding the record's name
+  children?: string; // Field holding nested child records, defaults to 'children'
+  values?: Record<MetricKey, string>; // Metric key to field, defaults to the registered fields
+  metadata?: string[]; // Fields copied into NodeData.metadata
+  wikipedia?: string; // Field holding a link to further information
+  flag?: string; // Field holding an image URL
+  lat?: string; // Field holding the latitude in degrees
+  long?: string; // Field holding the longitude in degrees
+  rootName?: string; // Name of the root node when the data has no single top-level key
+};
+
+/**
+ * Describes how to build a hierarchy from flat rows: either with an id and parent id column, or
+ * with a list of columns naming each row's ancestors from the top level down.
+ */
+export type FlatHierarchyMapping = HierarchyMapping &
+  (
+    | { id: string; parentId: string; levels?: never }
+    | { levels: string[]; id?: never; parentId?: never }
+  );
+
+/**
+ * A problem found with a single record of a dataset. Records with errors are skipped, records with
+ * warnings are still drawn.
+ */
+export type RecordIssue = {
+  record: string; // Name of the record, or its position if it has no name
+  field?: string;
+  message: string;
+  severity: 'error' | 'warning';
+};
+
+/**
+ * A loaded dataset: the hierarchy to draw and any issues found with its records.
+ */
+export type Dataset = {
+  root: NodeData;
+  issues: RecordIssue[];
+};
+
+/**
+ * Inclusive range of values of a metric, either end can be left open with null.
+ */
+export type MetricRange = {
+  min: number | null;
+  max: number | null;
+};
+
+/**
+ * Limits which leaf nodes are drawn: those with metric values within the ranges, outside of the
+ * hidden top-level groups.
+ */
+export type ChartFilter = {
+  ranges: Record<MetricKey, MetricRange>;
+  hiddenGroups: string[];
+};
@@ -0,0 +1,77 @@
+import * as d3 from 'd3';
+import {
+  ColourVision,
+  simulateColourVision,
+  toColorMatrixValues,
+} from './colour-vision';
+import { COLOUR_BLIND_SAFE_PALETTES, regionColourMap } from './colours';
+
+describe('colour vision', () => {
+  const dichromacies: ColourVision[] = [
+    'protanopia',
+    'deuteranopia',
+    'tritanopia',
+  ];
+
+  /**
+   * Returns the smallest difference (CIE76) between any two colours of a palette as simulated.
+   */
+  function smallestDifference(palette: string[], vision: ColourVision): number {
+    const simulated = palette.map((colour) =>
+      d3.lab(simulateColourVision(colour, vision))
+    );
+    let smallest = Infinity;
+    simulated.forEach((a, i) =>
+      simulated.slice(i + 1).forEach((b) => {
+        smallest = Math.min(
+          smallest,
+          Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b)
+        );
+      })
+    );
+    return smallest;
+  }
+
+  it('should keep white and greys unchanged', () => {
+    expect(simulateColourVision('#ffffff', 'deuteranopia')).toBe('#ffffff');
+    expect(simulateColourVision('#808080', 'achromatopsia')).toBe('#808080');
+  });
+
+  it('should confuse red and green without red cones', () => {
+    const red = d3.lab(simulateColourVision('#ff0000', 'protanopia'));
+    const green = d3.lab(simulateColourVision('#00ff00', 'protanopia'));
+
+    // Both are seen as yellows
+    expect(red.b).toBeGreaterThan(0);
+    expect(green.b).toBeGreaterThan(0);
+    expect(Math.abs(red.a)).toBeLessThan(20);
+  });
+
+  it('should keep the colour-blind-safe palettes distinguishable', () => {
+    Object.values(COLOUR_BLIND_SAFE_PALETTES).forEach((palette) => {
+      dichromacies.forEach((vision) => {
+        expect(smallestDifference(palette.slice(0, 4), vision)).toBeGreaterThan(
+          8
+        );
+      });
+    });
+    // Whereas the purple and blue of the default palette look alike
+    expect(
+      smallestDifference(Object.values(regionColourMap), 'protanopia')
+    ).toBeLessThan(5);
+  });
+
+  it('should write the simulation as an SVG colour matrix', () => {
+    const values = toColorMatrixValues('achromatopsia').split(' ');
+
+    expect(values.length).toBe(20);
+    expect(values.slice(0, 5)).toEqual([
+      '0.2126',
+      '0.7152',
+      '0.0722',
+      '0',
+      '0',
+    ]);
+    expect(values.slice(15)).toEqual(['0', '0', '0', '1', '0']);
+  });
+});
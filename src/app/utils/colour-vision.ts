@@ -0,0 +1,81 @@
+/**
+ * Handles the simulation of colour vision deficiencies, to preview how the chart's colours are seen
+ */
+
+import * as d3 from 'd3';
+
+export type ColourVision =
+  'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const COLOUR_VISION_LABELS: Record<ColourVision, string> = {
+  protanopia: 'Protanopia (no red cones)',
+  deuteranopia: 'Deuteranopia (no green cones)',
+  tritanopia: 'Tritanopia (no blue cones)',
+  achromatopsia: 'Achromatopsia (greyscale)',
+};
+
+// Matrices simulating each deficiency in linear RGB, rows of red, green and blue. The dichromacies
+// are from Machado, Oliveira and Fernandes (2009) at full severity; achromatopsia keeps the
+// luminance.
+const MATRICES: Record<ColourVision, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+/**
+ * Returns the values of an SVG `feColorMatrix` simulating a colour vision deficiency. The filter
+ * must interpolate in linear RGB, the default of SVG filters.
+ *
+ * @param vision - The deficiency to simulate
+ * @returns The 20 values of the matrix, separated by spaces
+ */
+export function toColorMatrixValues(vision: ColourVision): string {
+  return [...MATRICES[vision].map((row) => [...row, 0, 0]), [0, 0, 0, 1, 0]]
+    .flat()
+    .join(' ');
+}
+
+/**
+ * Simulates how a colour is seen with a colour vision deficiency.
+ *
+ * @param colour - Any CSS colour
+ * @param vision - The deficiency to simulate
+ * @returns The simulated colour as a hex string
+ */
+export function simulateColourVision(
+  colour: string,
+  vision: ColourVision
+): string {
+  const { r, g, b } = d3.rgb(colour);
+  const linear = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const [sr, sg, sb] = MATRICES[vision].map((row) => {
+    const value = d3.sum(row, (m, i) => m * linear[i]);
+    const c = Math.min(1, Math.max(0, value));
+    const encoded =
+      c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return encoded * 255;
+  });
+  return d3.rgb(sr, sg, sb).formatHex();
+}
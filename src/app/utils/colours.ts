@@ -1,14 +1,59 @@
 import * as d3 from 'd3';
+import { ColourScheme } from '../shared/types';
 
 // Mapping of regions to colours
-const regionColourMap = {
+export const regionColourMap: Record<string, string> = {
   'Northern Europe': '#9372c7',
   'Eastern Europe': '#0A84FF',
   'Southern Europe': '#ffA600',
   'Western Europe': '#12BC00',
 };
 
-export const regionColourScale = d3
-  .scaleOrdinal<string, string>()
-  .domain(Object.keys(regionColourMap))
-  .range(Object.values(regionColourMap));
+export const regionColourScale = createColourScale(regionColourMap);
+
+/**
+ * Palettes that stay distinguishable with the common colour vision deficiencies, assigned to groups
+ * in order.
+ */
+export const COLOUR_BLIND_SAFE_PALETTES: Record<string, string[]> = {
+  // Okabe and Ito, "Color Universal Design"
+  'Okabe-Ito': [
+    '#E69F00',
+    '#56B4E9',
+    '#009E73',
+    '#F0E442',
+    '#0072B2',
+    '#D55E00',
+    '#CC79A7',
+  ],
+  // IBM Design Library
+  IBM: ['#648FFF', '#785EF0', '#DC267F', '#FE6100', '#FFB000'],
+  // Paul Tol's "bright" qualitative scheme
+  'Tol bright': [
+    '#4477AA',
+    '#EE6677',
+    '#228833',
+    '#CCBB44',
+    '#66CCEE',
+    '#AA3377',
+  ],
+};
+
+/**
+ * Creates an ordinal colour scale for top-level groups. Each chart gets its own scale, as ordinal
+ * scales add unknown group names to their domain as they are used.
+ *
+ * @param scheme - Mapping of group names to colours, or a palette assigned to groups in order
+ * @returns The colour scale
+ */
+export function createColourScale(
+  scheme: ColourScheme = regionColourMap
+): d3.ScaleOrdinal<string, string> {
+  if (Array.isArray(scheme)) {
+    return d3.scaleOrdinal<string, string>().range(scheme);
+  }
+  return d3
+    .scaleOrdinal<string, string>()
+    .domain(Object.keys(scheme))
+    .range(Object.values(scheme));
+}
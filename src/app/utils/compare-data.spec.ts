@@ -0,0 +1,89 @@
+import { NodeData } from '../shared/types';
+import {
+  addToComparison,
+  removeFromComparison,
+  toComparisonRows,
+} from './compare-data';
+import { DEFAULT_METRICS } from './metrics';
+
+describe('compare data', () => {
+  const france: NodeData = {
+    name: 'France',
+    metrics: { landAreaKM2: 640000, population: 68000000 },
+  };
+  const belgium: NodeData = {
+    name: 'Belgium',
+    metrics: { landAreaKM2: 30000, population: 11700000 },
+  };
+  const monaco: NodeData = {
+    name: 'Monaco',
+    metrics: { landAreaKM2: 0, population: 38000 },
+  };
+  const andorra: NodeData = { name: 'Andorra', metrics: { population: 80000 } };
+  const malta: NodeData = { name: 'Malta' };
+
+  it('should add countries in order up to the maximum', () => {
+    let compared: string[] = [];
+    [france, belgium, france, monaco, andorra, malta].forEach((country) => {
+      compared = addToComparison(compared, country.name);
+    });
+
+    expect(compared).toEqual(['France', 'Belgium', 'Monaco', 'Andorra']);
+    expect(addToComparison(compared, malta.name)).toBe(compared);
+  });
+
+  it('should remove countries by name', () => {
+    const compared = removeFromComparison(
+      ['France', 'Belgium', 'Monaco'],
+      'Belgium'
+    );
+
+    expect(compared).toEqual(['France', 'Monaco']);
+  });
+
+  it('should compare the values with the first country', () => {
+    const rows = toComparisonRows(
+      [belgium, france, andorra],
+      DEFAULT_METRICS,
+      20
+    );
+    const area = rows.find((row) => row.metric.key === 'landAreaKM2')!;
+    const population = rows.find((row) => row.metric.key === 'population')!;
+
+    expect(area.values).toEqual([30000, 640000, null]);
+    expect(area.ratios[0]).toBe(1);
+    expect(area.ratios[1]).toBeCloseTo(21.33, 2);
+    expect(area.ratios[2]).toBeNull();
+    expect(population.ratios[2]).toBeCloseTo(0.0068, 4);
+  });
+
+  it('should leave out ratios to a missing or zero first value', () => {
+    const rows = toComparisonRows([monaco, france], DEFAULT_METRICS, 20);
+    const area = rows.find((row) => row.metric.key === 'landAreaKM2')!;
+
+    expect(area.ratios).toEqual([null, null]);
+  });
+
+  it('should size the mini-circles by area', () => {
+    const rows = toComparisonRows(
+      [france, belgium, monaco],
+      DEFAULT_METRICS,
+      20
+    );
+    const area = rows.find((row) => row.metric.key === 'landAreaKM2')!;
+
+    expect(area.radii[0]).toBe(20);
+    expect(area.radii[1]).toBeCloseTo(20 * Math.sqrt(30000 / 640000), 6);
+    expect(area.radii[2]).toBe(0);
+  });
+
+  it('should leave out metrics none of the countries have', () => {
+    const rows = toComparisonRows([france, malta], DEFAULT_METRICS, 20);
+
+    expect(rows.map((row) => row.metric.key)).toEqual([
+      'landAreaKM2',
+      'population',
+    ]);
+    expect(rows[0].values).toEqual([640000, null]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Handles the selection and tabulation of countries compared side by side in the drawer
+ */
+
+import { MetricDefinition, NodeData } from '../shared/types';
+
+// Most countries that can be compared at once
+export const MAX_COMPARED_COUNTRIES = 4;
+
+export interface ComparisonRow {
+  metric: MetricDefinition;
+  // Value of the metric for each compared country, null where it is missing
+  values: (number | null)[];
+  // Each value relative to the first country's value, null where either is missing or the first
+  // is zero
+  ratios: (number | null)[];
+  // Radius of each country's mini-circle, with areas proportional to the values
+  radii: number[];
+}
+
+/**
+ * Adds a country to the comparison, unless it is already compared or the comparison is full.
+ * Countries are compared by name, so that their values can be looked up again when the data
+ * changes.
+ *
+ * @param compared - Names of the compared countries, in the order they were picked
+ * @param name - Name of the country to add
+ * @param max - Most countries that can be compared at once
+ * @returns The compared names including the new one, or the same list if it was not added
+ */
+export function addToComparison(
+  compared: string[],
+  name: string,
+  max = MAX_COMPARED_COUNTRIES
+): string[] {
+  if (compared.length >= max || compared.includes(name)) {
+    return compared;
+  }
+  return [...compared, name];
+}
+
+/**
+ * Removes a country from the comparison by name.
+ *
+ * @param compared - Names of the compared countries
+ * @param name - Name of the country to remove
+ * @returns The remaining compared names, in the same order
+ */
+export function removeFromComparison(
+  compared: string[],
+  name: string
+): string[] {
+  return compared.filter((item) => item !== name);
+}
+
+/**
+ * Tabulates the metrics of the compared countries, one row per metric that at least one of them
+ * has. Values are compared with the first country picked.
+ *
+ * @param compared - The compared countries, in the order they were picked
+ * @param metrics - The metrics to tabulate, in display order
+ * @param maxRadius - Radius of the mini-circle of the largest value in each row
+ * @returns The comparison rows
+ */
+export function toComparisonRows(
+  compared: NodeData[],
+  metrics: MetricDefinition[],
+  maxRadius: number
+): ComparisonRow[] {
+  return metrics
+    .map((metric) => {
+      const values = compared.map((country) => {
+        const value = country.metrics?.[metric.key];
+        return value !== undefined && Number.isFinite(value) ? value : null;
+      });
+      const first = values[0];
+      const largest = Math.max(0, ...values.map((value) => value ?? 0));
+
+      return {
+        metric,
+        values,
+        ratios: values.map((value) =>
+          value !== null && first !== null && first !== 0 ? value / first : null
+        ),
+        radii: values.map((value) =>
+          value !== null && value > 0 && largest > 0
+            ? maxRadius * Math.sqrt(value / largest)
+            : 0
+        ),
+      };
+    })
+    .filter((row) => row.values.some((value) => value !== null));
+}
@@ -0,0 +1,138 @@
+import { MetricRegistry } from './metrics';
+import {
+  DataSourceError,
+  FileDataSource,
+  UrlDataSource,
+  detectFormat,
+  parseDataset,
+} from './data-sources';
+
+describe('data sources', () => {
+  const metrics = new MetricRegistry([{ key: 'size', label: 'Size' }]);
+
+  describe('detectFormat', () => {
+    it('should detect CSV from the extension or MIME type', () => {
+      expect(detectFormat('data/countries.csv')).toBe('csv');
+      expect(detectFormat('/api/countries.CSV?year=2020')).toBe('csv');
+      expect(detectFormat('upload', 'text/csv')).toBe('csv');
+    });
+
+    it('should default to JSON', () => {
+      expect(detectFormat('data/countries.json')).toBe('json');
+      expect(detectFormat('/api/countries')).toBe('json');
+    });
+  });
+
+  describe('parseDataset', () => {
+    it('should build a hierarchy from nested JSON', () => {
+      const { root, issues } = parseDataset(
+        JSON.stringify({ Europe: { North: [{ name: 'Norway', size: 4 }] } }),
+        'json',
+        { name: 'name' },
+        metrics
+      );
+
+      expect(root.name).toBe('Europe');
+      expect(root.children?.[0].children?.[0].metrics?.['size']).toBe(4);
+      expect(issues).toEqual([]);
+    });
+
+    it('should build a hierarchy from CSV rows', () => {
+      const { root } = parseDataset(
+        'region,name,size\nNorth,Norway,4\nSouth,Italy,3\n',
+        'csv',
+        { name: 'name', levels: ['region'], rootName: 'Europe' },
+        metrics
+      );
+
+      expect(root.children?.map((region) => region.name)).toEqual([
+        'North',
+        'South',
+      ]);
+    });
+
+    it('should build a hierarchy from a JSON array of rows', () => {
+      const { root } = parseDataset(
+        JSON.stringify([
+          { region: 'North', name: 'Norway', size: 4 },
+          { region: 'South', name: 'Italy', size: 3 },
+        ]),
+        'json',
+        { name: 'name', levels: ['region'], rootName: 'Europe' },
+        metrics
+      );
+
+      expect(root.name).toBe('Europe');
+      expect(root.children?.map((region) => region.name)).toEqual([
+        'North',
+        'South',
+      ]);
+    });
+
+    it('should reject CSV with a mapping for nested data', () => {
+      expect(() =>
+        parseDataset('name,size\nNorway,4\n', 'csv', { name: 'name' }, metrics)
+      ).toThrowError(DataSourceError, /level columns or id and parent id/);
+    });
+
+    it('should reject empty and malformed datasets', () => {
+      expect(() =>
+        parseDataset('  ', 'json', { name: 'name' }, metrics)
+      ).toThrowError(DataSourceError, /empty/);
+      expect(() =>
+        parseDataset('{"Europe": [', 'json', { name: 'name' }, metrics)
+      ).toThrowError(DataSourceError, /not valid JSON/);
+    });
+  });
+
+  describe('FileDataSource', () => {
+    it('should read CSV files with the CSV mapping by default', async () => {
+      const file = new File(
+        [
+          'region,country,population,land_area_km2\n',
+          'Northern Europe,Norway,5500000,385207\n',
+          'Southern Europe,Italy,59000000,301340\n',
+        ],
+        'countries.csv',
+        { type: 'text/csv' }
+      );
+
+      const { root } = await new FileDataSource(file).load(
+        new MetricRegistry()
+      );
+
+      expect(root.name).toBe('Europe');
+      expect(root.children?.[0].children?.[0].name).toBe('Norway');
+    });
+  });
+
+  describe('UrlDataSource', () => {
+    const originalFetch = window.fetch;
+
+    afterEach(() => {
+      window.fetch = originalFetch;
+    });
+
+    it('should raise a DataSourceError when the request fails', async () => {
+      window.fetch = () =>
+        Promise.resolve(
+          new Response('', { status: 404, statusText: 'Not Found' })
+        );
+
+      let error: unknown;
+      try {
+        await new UrlDataSource('/missing.json').load(metrics);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(DataSourceError);
+      expect((error as DataSourceError).message).toBe(
+        'Could not load data from /missing.json'
+      );
+      expect((error as DataSourceError).details).toEqual([
+        'Error: 404 Not Found',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Handles loading datasets from URLs, local files and inline data
+ */
+
+import * as d3 from 'd3';
+import {
+  Dataset,
+  FlatHierarchyMapping,
+  HierarchyMapping,
+  NodeData,
+  RecordIssue,
+} from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { computeDerivedMetrics } from './derived-metrics';
+import { fromFlatRows } from './hierarchy-loader';
+import {
+  EUROPE_CSV_MAPPING,
+  EUROPE_MAPPING,
+  transformData,
+} from './process-data';
+import { formatIssue } from './validate-data';
+
+export const DEFAULT_DATA_URL = '/assets/europe_population_enriched.json';
+
+export type DataFormat = 'json' | 'csv';
+
+/**
+ * Error raised when a dataset cannot be loaded or does not match the expected schema.
+ */
+export class DataSourceError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'DataSourceError';
+  }
+}
+
+/**
+ * A source of hierarchical data for the chart.
+ */
+export interface DataSource {
+  /**
+   * Loads the dataset and transforms it into the hierarchy format expected by the chart. Invalid
+   * records are skipped and returned as issues alongside the hierarchy.
+   *
+   * @param metrics - The metrics to read from each record
+   */
+  load(metrics: MetricRegistry): Promise<Dataset>;
+}
+
+/**
+ * Loads a JSON or CSV dataset from a URL.
+ */
+export class UrlDataSource implements DataSource {
+  constructor(
+    private url: string = DEFAULT_DATA_URL,
+    private mapping: HierarchyMapping | FlatHierarchyMapping = EUROPE_MAPPING,
+    private format: DataFormat = detectFormat(url)
+  ) {}
+
+  public async load(metrics: MetricRegistry): Promise<Dataset> {
+    let text: string | undefined;
+    try {
+      text = await d3.text(this.url);
+    } catch (error) {
+      throw new DataSourceError(`Could not load data from ${this.url}`, [
+        String(error),
+      ]);
+    }
+    return parseDataset(text, this.format, this.mapping, metrics);
+  }
+}
+
+/**
+ * Loads a JSON or CSV dataset from a local file, e.g. one dropped onto the chart. CSV files are
+ * read with the CSV mapping when the mapping is one for nested JSON.
+ */
+export class FileDataSource implements DataSource {
+  constructor(
+    private file: File,
+    private mapping: HierarchyMapping | FlatHierarchyMapping = EUROPE_MAPPING,
+    private csvMapping: FlatHierarchyMapping = EUROPE_CSV_MAPPING
+  ) {}
+
+  public async load(metrics: MetricRegistry): Promise<Dataset> {
+    const format = detectFormat(this.file.name, this.file.type);
+    const mapping =
+      format === 'csv' && !isFlatMapping(this.mapping)
+        ? this.csvMapping
+        : this.mapping;
+    const text = await this.file.text();
+    return parseDataset(text, format, mapping, metrics);
+  }
+}
+
+/**
+ * Uses data that has already been loaded, e.g. passed in through a component input.
+ */
+export class InlineDataSource implements DataSource {
+  constructor(
+    private data: unknown,
+    private mapping: HierarchyMapping | FlatHierarchyMapping = EUROPE_MAPPING
+  ) {}
+
+  public async load(metrics: MetricRegistry): Promise<Dataset> {
+    if (Array.isArray(this.data) && isFlatMapping(this.mapping)) {
+      return buildFromRows(this.data, this.mapping, metrics);
+    }
+    return buildFromJson(this.data, this.mapping, metrics);
+  }
+}
+
+/**
+ * Parses the text of a dataset and transforms it into a hierarchy, validating its schema.
+ *
+ * @param text - The raw text of the dataset
+ * @param format - The format of the text
+ * @param mapping - Which fields hold the name, values and metadata of each record
+ * @param metrics - The metrics to read from each record
+ * @returns The transformed data and any issues found with its records
+ */
+export function parseDataset(
+  text: string | undefined,
+  format: DataFormat,
+  mapping: HierarchyMapping | FlatHierarchyMapping,
+  metrics: MetricRegistry
+): Dataset {
+  if (!text || text.trim() === '') {
+    throw new DataSourceError('The dataset is empty.');
+  }
+
+  if (format === 'csv') {
+    if (!isFlatMapping(mapping)) {
+      throw new DataSourceError(
+        'CSV data needs a mapping with either level columns or id and parent id columns.'
+      );
+    }
+    return buildFromRows(d3.csvParse(text), mapping, metrics);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new DataSourceError('The dataset is not valid JSON.', [
+      String(error),
+    ]);
+  }
+  if (Array.isArray(data) && isFlatMapping(mapping)) {
+    return buildFromRows(data, mapping, metrics);
+  }
+  return buildFromJson(data, mapping, metrics);
+}
+
+/**
+ * Builds the hierarchy from nested JSON, checking its overall shape first.
+ */
+function buildFromJson(
+  data: unknown,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry
+): Dataset {
+  if (typeof data !== 'object' || data === null) {
+    throw new DataSourceError(
+      'Expected the dataset to be a JSON object or array.'
+    );
+  }
+
+  const issues: RecordIssue[] = [];
+  const root = transformData(data, metrics, mapping, issues);
+  return checkHasRecords(root, issues);
+}
+
+/**
+ * Builds the hierarchy from flat rows, checking the mapped columns exist first.
+ */
+function buildFromRows(
+  rows: Record<string, unknown>[],
+  mapping: FlatHierarchyMapping,
+  metrics: MetricRegistry
+): Dataset {
+  if (rows.length === 0) {
+    throw new DataSourceError('The dataset has no rows.');
+  }
+
+  const columns = [
+    mapping.name,
+    ...(mapping.levels ?? [mapping.id, mapping.parentId]),
+  ];
+  const missing = columns.filter((column) => !(column in rows[0]));
+  if (missing.length > 0) {
+    throw new DataSourceError(
+      'The dataset is missing columns required by the mapping.',
+      missing.map((column) => `Missing column "${column}"`)
+    );
+  }
+
+  const issues: RecordIssue[] = [];
+  let root: NodeData;
+  try {
+    root = computeDerivedMetrics(
+      fromFlatRows(rows, mapping, metrics, issues),
+      metrics
+    );
+  } catch (error) {
+    // d3.stratify reports missing parents, duplicate ids and multiple roots
+    throw new DataSourceError('The rows do not form a single hierarchy.', [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+  return checkHasRecords(root, issues);
+}
+
+/**
+ * Throws if the hierarchy has nothing to draw, listing the issues that caused records to be skipped.
+ */
+function checkHasRecords(root: NodeData, issues: RecordIssue[]): Dataset {
+  if (!root.children || root.children.length === 0) {
+    throw new DataSourceError(
+      'The dataset contains no valid records.',
+      issues.map(formatIssue)
+    );
+  }
+  return { root, issues };
+}
+
+/**
+ * Detects the format of a dataset from its file name or URL, and MIME type if known.
+ *
+ * @param name - File name or URL
+ * @param mimeType - MIME type, if known
+ * @returns The detected format, defaulting to JSON
+ */
+export function detectFormat(name: string, mimeType: string = ''): DataFormat {
+  if (mimeType === 'text/csv' || /\.csv(\?.*)?$/i.test(name)) {
+    return 'csv';
+  }
+  return 'json';
+}
+
+/**
+ * Returns true if the mapping describes how to build a hierarchy from flat rows.
+ */
+function isFlatMapping(
+  mapping: HierarchyMapping | FlatHierarchyMapping
+): mapping is FlatHierarchyMapping {
+  return 'levels' in mapping || ('id' in mapping && 'parentId' in mapping);
+}
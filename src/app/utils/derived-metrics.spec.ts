@@ -0,0 +1,91 @@
+import europeData from '../../assets/europe_population_enriched.json';
+import { NodeData } from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { computeDerivedMetrics } from './derived-metrics';
+import { parseDataset } from './data-sources';
+import { EUROPE_MAPPING, transformData } from './process-data';
+
+describe('computeDerivedMetrics', () => {
+  let root: NodeData;
+
+  const findCountry = (name: string): NodeData | undefined =>
+    root.children
+      ?.flatMap((region) => region.children ?? [])
+      .find((country) => country.name === name);
+
+  // Tested against the bundled dataset
+  beforeAll(() => {
+    root = transformData(europeData, new MetricRegistry());
+  });
+
+  it('should compute population density for each country', () => {
+    const germany = findCountry('Germany');
+    const metrics = germany?.metrics ?? {};
+
+    expect(metrics['density']).toBeCloseTo(
+      metrics['population'] / metrics['landAreaKM2']
+    );
+  });
+
+  it('should compute shares that sum to one within each region', () => {
+    root.children?.forEach((region) => {
+      const total = (region.children ?? []).reduce(
+        (sum, country) => sum + (country.metrics?.['regionShare'] ?? 0),
+        0
+      );
+      expect(total).toBeCloseTo(1);
+    });
+  });
+
+  it('should compute shares that sum to one across Europe', () => {
+    const total = (root.children ?? [])
+      .flatMap((region) => region.children ?? [])
+      .reduce(
+        (sum, country) => sum + (country.metrics?.['europeShare'] ?? 0),
+        0
+      );
+
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('should leave ratios unset when the denominator is zero', () => {
+    const data: NodeData = {
+      name: 'Root',
+      children: [
+        { name: 'Empty', metrics: { population: 10, landAreaKM2: 0 } },
+      ],
+    };
+
+    computeDerivedMetrics(data, new MetricRegistry());
+
+    expect(data.children?.[0].metrics?.['density']).toBeUndefined();
+  });
+
+  it('should compute the metrics of data loaded from a source', () => {
+    const data = {
+      Europe: {
+        'Northern Europe': [
+          { country: 'Denmark', population: 5900000, land_area_km2: 42924 },
+          { country: 'Norway', population: 5500000, land_area_km2: 365268 },
+        ],
+        'Western Europe': [
+          { country: 'France', population: 68000000, land_area_km2: 547557 },
+        ],
+      },
+    };
+
+    const loaded = parseDataset(
+      JSON.stringify(data),
+      'json',
+      EUROPE_MAPPING,
+      new MetricRegistry()
+    ).root;
+
+    const denmark = loaded.children?.[0].children?.find(
+      (country) => country.name === 'Denmark'
+    );
+    expect(denmark?.metrics?.['density']).toBeCloseTo(5900000 / 42924);
+    expect(denmark?.metrics?.['regionShare']).toBeCloseTo(59 / 114);
+    expect(denmark?.metrics?.['europeShare']).toBeCloseTo(59 / 794);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Handles computation of derived metrics
+ */
+
+import * as d3 from 'd3';
+import { DerivedMetric, MetricKey, NodeData } from '../shared/types';
+import { MetricRegistry } from './metrics';
+
+/**
+ * Computes every derived metric in the registry and stores the results on the leaf nodes of the
+ * hierarchy, alongside the raw metrics.
+ *
+ * @remarks
+ * Derived metrics are computed in registration order, so a derived metric can build on one that
+ * was registered before it.
+ * @param root - Root of the transformed hierarchy (modified in place)
+ * @param metrics - The registered metrics
+ * @returns The same root, for chaining
+ */
+export function computeDerivedMetrics(
+  root: NodeData,
+  metrics: MetricRegistry
+): NodeData {
+  const hierarchy = d3.hierarchy<NodeData>(root);
+
+  metrics.list().forEach((metric) => {
+    if (metric.derive) {
+      deriveMetric(hierarchy, metric.key, metric.derive);
+    }
+  });
+
+  return root;
+}
+
+/**
+ * Computes a single derived metric for every leaf of the hierarchy.
+ *
+ * @param hierarchy - The hierarchy to compute the metric for
+ * @param key - Key to store the computed value under
+ * @param derive - Definition of the derived metric
+ */
+function deriveMetric(
+  hierarchy: d3.HierarchyNode<NodeData>,
+  key: MetricKey,
+  derive: DerivedMetric
+): void {
+  if (derive.type === 'ratio') {
+    hierarchy.leaves().forEach((leaf) => {
+      const numerator = leaf.data.metrics?.[derive.numerator];
+      const denominator = leaf.data.metrics?.[derive.denominator];
+
+      // Leave the metric unset rather than storing NaN or Infinity
+      if (numerator === undefined || !denominator) return;
+      setMetric(leaf.data, key, numerator / denominator);
+    });
+    return;
+  }
+
+  // Shares are computed against the summed totals of the hierarchy
+  const totals = hierarchy.sum((d) =>
+    d.children ? 0 : (d.metrics?.[derive.of] ?? 0)
+  );
+
+  totals.leaves().forEach((leaf) => {
+    const whole = derive.type === 'shareOfParent' ? leaf.parent : totals;
+    const part = leaf.data.metrics?.[derive.of];
+
+    if (part === undefined || !whole?.value) return;
+    setMetric(leaf.data, key, part / whole.value);
+  });
+}
+
+/**
+ * Stores a metric value on a node.
+ */
+function setMetric(node: NodeData, key: MetricKey, value: number): void {
+  node.metrics ??= {};
+  node.metrics[key] = value;
+}
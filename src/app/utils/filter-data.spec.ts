@@ -0,0 +1,73 @@
+import { ChartFilter, NodeData } from '../shared/types';
+import {
+  EMPTY_FILTER,
+  countLeaves,
+  filterHierarchy,
+  isFilterActive,
+} from './filter-data';
+
+describe('filter data', () => {
+  const root: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          { name: 'Norway', metrics: { population: 5.5, landAreaKM2: 365 } },
+          { name: 'Sweden', metrics: { population: 10.5, landAreaKM2: 407 } },
+        ],
+      },
+      {
+        name: 'Southern Europe',
+        children: [
+          { name: 'Italy', metrics: { population: 59, landAreaKM2: 295 } },
+          { name: 'Malta', metrics: { landAreaKM2: 0.3 } },
+        ],
+      },
+    ],
+  };
+
+  const names = (data: NodeData) =>
+    (data.children ?? []).flatMap((group) =>
+      (group.children ?? []).map((country) => country.name)
+    );
+
+  it('should keep the hierarchy as it is without an active filter', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBeFalse();
+    expect(filterHierarchy(root, EMPTY_FILTER)).toBe(root);
+  });
+
+  it('should keep the countries within every range', () => {
+    const filter: ChartFilter = {
+      ranges: {
+        population: { min: 10, max: null },
+        landAreaKM2: { min: null, max: 400 },
+      },
+      hiddenGroups: [],
+    };
+
+    expect(names(filterHierarchy(root, filter))).toEqual(['Italy']);
+  });
+
+  it('should drop countries missing a filtered metric and empty groups', () => {
+    const filter: ChartFilter = {
+      ranges: { population: { min: 0, max: 6 } },
+      hiddenGroups: [],
+    };
+    const filtered = filterHierarchy(root, filter);
+
+    expect(names(filtered)).toEqual(['Norway']);
+    expect(filtered.children?.length).toBe(1);
+  });
+
+  it('should hide the unchecked groups', () => {
+    const filtered = filterHierarchy(root, {
+      ranges: {},
+      hiddenGroups: ['Southern Europe'],
+    });
+
+    expect(names(filtered)).toEqual(['Norway', 'Sweden']);
+    expect(countLeaves(filtered)).toBe(2);
+    expect(countLeaves(root)).toBe(4);
+  });
+});
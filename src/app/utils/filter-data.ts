@@ -0,0 +1,87 @@
+/**
+ * Handles filtering of the hierarchy down to the leaf nodes matching a filter
+ */
+
+import * as d3 from 'd3';
+import { ChartFilter, NodeData } from '../shared/types';
+
+// Filter that keeps every node
+export const EMPTY_FILTER: ChartFilter = { ranges: {}, hiddenGroups: [] };
+
+/**
+ * Checks whether a filter limits the nodes at all.
+ *
+ * @param filter - The filter to check
+ * @returns Whether any range is set or any group is hidden
+ */
+export function isFilterActive(filter: ChartFilter): boolean {
+  return (
+    filter.hiddenGroups.length > 0 ||
+    Object.values(filter.ranges).some(
+      (range) => range.min !== null || range.max !== null
+    )
+  );
+}
+
+/**
+ * Filters a hierarchy down to the leaf nodes matching the filter. Groups left without any leaf
+ * nodes are removed, so the pack layout can be re-run on just the matching subset.
+ *
+ * @param root - Root node of the hierarchy
+ * @param filter - The filter to apply
+ * @returns The filtered hierarchy, or the root itself if the filter is not active
+ */
+export function filterHierarchy(root: NodeData, filter: ChartFilter): NodeData {
+  if (!isFilterActive(filter)) return root;
+
+  const children = (root.children ?? [])
+    .filter((group) => !filter.hiddenGroups.includes(group.name))
+    .map((group) => filterNode(group, filter))
+    .filter((node): node is NodeData => node !== null);
+
+  return { ...root, children };
+}
+
+/**
+ * Counts the leaf nodes of a hierarchy.
+ *
+ * @param root - Root node of the hierarchy
+ * @returns Number of leaf nodes, not counting a root without children
+ */
+export function countLeaves(root: NodeData): number {
+  if (!root.children || root.children.length === 0) return 0;
+  return d3.hierarchy(root).leaves().length;
+}
+
+/**
+ * Filters a node below the root, returning null if neither it nor any of its descendants match.
+ */
+function filterNode(node: NodeData, filter: ChartFilter): NodeData | null {
+  if (!node.children) {
+    return matchesRanges(node, filter) ? node : null;
+  }
+
+  const children = node.children
+    .map((child) => filterNode(child, filter))
+    .filter((child): child is NodeData => child !== null);
+
+  return children.length > 0 ? { ...node, children } : null;
+}
+
+/**
+ * Checks whether a leaf node's metric values are within the filter's ranges. Leaves missing a
+ * metric do not match a range set on it.
+ */
+function matchesRanges(node: NodeData, filter: ChartFilter): boolean {
+  return Object.entries(filter.ranges).every(([key, range]) => {
+    if (range.min === null && range.max === null) return true;
+
+    const value = node.metrics?.[key];
+    if (value === undefined) return false;
+
+    return (
+      (range.min === null || value >= range.min) &&
+      (range.max === null || value <= range.max)
+    );
+  });
+}
@@ -0,0 +1,131 @@
+import * as d3 from 'd3';
+import {
+  EUROPE_GROUP_PLACEMENT,
+  GroupCircle,
+  getAnchorAngles,
+  isValidPlacement,
+  placeGroups,
+} from './group-placement';
+import { GroupPlacement } from '../shared/types';
+
+describe('group placement', () => {
+  const width = 600;
+  const height = 400;
+
+  /**
+   * Packs groups of random sizes the way the chart does, returning the group circles.
+   */
+  function packGroups(count: number, seed = count): GroupCircle[] {
+    const random = d3.randomLcg(seed / 100);
+    const root = d3
+      .hierarchy<{ name: string; value?: number; children?: unknown[] }>({
+        name: 'root',
+        children: d3.range(count).map((i) => ({
+          name: `Group ${i + 1}`,
+          children: d3.range(5).map(() => ({ name: '', value: random() })),
+        })),
+      })
+      .sum((d) => d.value ?? 0);
+
+    return d3
+      .pack<{ name: string }>()
+      .size([width, height])
+      .padding(4)(root)
+      .children!.map((group) => ({
+        name: group.data.name,
+        x: group.x,
+        y: group.y,
+        r: group.r,
+      }));
+  }
+
+  function place(groups: GroupCircle[], placement?: GroupPlacement) {
+    const positions = placeGroups(groups, width, height, placement);
+    return groups.map((group) => ({ ...group, ...positions.get(group.name)! }));
+  }
+
+  /**
+   * Returns the names of the groups clockwise from the top.
+   */
+  function clockwise(groups: GroupCircle[]): string[] {
+    const angle = (group: GroupCircle) =>
+      (Math.atan2(group.y - height / 2, group.x - width / 2) + 2.5 * Math.PI) %
+      (2 * Math.PI);
+    return [...groups]
+      .sort((a, b) => angle(a) - angle(b))
+      .map((group) => group.name);
+  }
+
+  [2, 4, 7, 12].forEach((count) => {
+    it(`should place ${count} groups without overlaps`, () => {
+      const placed = place(packGroups(count));
+
+      expect(isValidPlacement(placed, width, height)).toBeTrue();
+    });
+
+    it(`should place ${count} groups in the given angular order`, () => {
+      const groups = packGroups(count);
+      const order = d3.shuffler(d3.randomLcg(0.25))(
+        groups.map((group) => group.name)
+      );
+      const placed = place(groups, { type: 'order', order });
+
+      expect(isValidPlacement(placed, width, height)).toBeTrue();
+      // Cyclic order, starting from the group placed first
+      const names = clockwise(placed);
+      const start = names.indexOf(order[0]);
+      expect([...names.slice(start), ...names.slice(0, start)]).toEqual(order);
+    });
+  });
+
+  it('should place the European regions by their centroids', () => {
+    const placement = EUROPE_GROUP_PLACEMENT;
+    expect(placement.type).toBe('centroids');
+    if (placement.type !== 'centroids') return;
+    const names = Object.keys(placement.centroids);
+    const groups = packGroups(4).map((group, i) => ({
+      ...group,
+      name: names[i],
+    }));
+    const placed = place(groups, placement);
+    const region = (name: string) =>
+      placed.find((group) => group.name === name)!;
+
+    expect(isValidPlacement(placed, width, height)).toBeTrue();
+    expect(region('Northern Europe').y).toBeLessThan(
+      region('Southern Europe').y
+    );
+    expect(region('Western Europe').x).toBeLessThan(region('Eastern Europe').x);
+  });
+
+  it('should space the angles evenly when a centroid is missing', () => {
+    const groups = packGroups(4);
+    const angles = getAnchorAngles(groups, {
+      type: 'centroids',
+      centroids: { 'Group 1': { lat: 0, long: 0 } },
+    });
+
+    expect(angles).toEqual(
+      [0, 1, 2, 3].map((i) => -Math.PI / 2 + (i * Math.PI) / 2)
+    );
+  });
+
+  it('should keep the packed positions of groups that cannot be spread out', () => {
+    // Touching circles filling the pack area, which leave no room for the margin between them
+    const groups: GroupCircle[] = [
+      { name: 'a', x: 100, y: 100, r: 100 },
+      { name: 'b', x: 300, y: 100, r: 100 },
+    ];
+    const positions = placeGroups(groups, 400, 200, {
+      type: 'order',
+      order: ['b', 'a'],
+    });
+
+    expect(positions.get('a')).toEqual(
+      jasmine.objectContaining({ x: 100, y: 100 })
+    );
+    expect(positions.get('b')).toEqual(
+      jasmine.objectContaining({ x: 300, y: 100 })
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Handles placement of the top-level group circles around the centre of the chart
+ */
+
+import * as d3 from 'd3';
+import { GroupPlacement } from '../shared/types';
+
+// Placement of the regions of the bundled European countries dataset, by their rough centroids
+export const EUROPE_GROUP_PLACEMENT: GroupPlacement = {
+  type: 'centroids',
+  centroids: {
+    'Northern Europe': { lat: 62, long: 15 },
+    'Western Europe': { lat: 48, long: 5 },
+    'Eastern Europe': { lat: 50, long: 30 },
+    'Southern Europe': { lat: 41, long: 14 },
+  },
+};
+
+// Number of simulation ticks pulling the groups towards their anchors, then only separating them
+const ANCHORED_TICKS = 300;
+const SEPARATING_TICKS = 100;
+// Allowed error when checking that the placed circles do not overlap or leave the pack area
+const TOLERANCE = 1e-6;
+
+export interface GroupCircle {
+  name: string;
+  x: number;
+  y: number;
+  r: number;
+}
+
+interface SimulatedGroup extends d3.SimulationNodeDatum {
+  r: number;
+  targetX: number;
+  targetY: number;
+}
+
+/**
+ * Places the group circles around the centre of the pack area, each in the direction of its anchor.
+ *
+ * @remarks
+ * Each group is pulled towards the edge of the pack area in the direction of its anchor angle, while
+ * a collision force pushes overlapping groups apart and every group is kept within the pack area.
+ * Anchor angles come from the placement: the directions of the groups' centroids from their mean
+ * centroid, or evenly spaced angles in the given order. Without a placement, or if it does not cover
+ * every group, the angles are evenly spaced in the order of the groups.
+ *
+ * Placed groups never overlap: if they cannot all fit around the centre (e.g. a few very large
+ * groups in a small area), the groups keep their packed positions, which do not overlap either.
+ * @param groups - The group circles, at their packed positions
+ * @param width - Pack width
+ * @param height - Pack height
+ * @param placement - Where to place each group, optional
+ * @returns Centre of each group by name
+ */
+export function placeGroups(
+  groups: GroupCircle[],
+  width: number,
+  height: number,
+  placement?: GroupPlacement
+): Map<string, { x: number; y: number }> {
+  const packed = new Map(groups.map((group) => [group.name, group]));
+  if (groups.length < 2) return packed;
+
+  const margin = Math.max(2, Math.min(width, height) * 0.01);
+  const angles = getAnchorAngles(groups, placement);
+
+  // Targets are as far from the centre as the circle fits, so the groups spread over the pack area
+  const simulated: SimulatedGroup[] = groups.map((group, i) => {
+    const targetX =
+      width / 2 +
+      Math.cos(angles[i]) * Math.max(0, width / 2 - group.r - margin);
+    const targetY =
+      height / 2 +
+      Math.sin(angles[i]) * Math.max(0, height / 2 - group.r - margin);
+    return { r: group.r, x: targetX, y: targetY, targetX, targetY };
+  });
+
+  const keepInBounds = () =>
+    simulated.forEach((group) => {
+      group.x = clamp(group.x!, group.r + margin, width - group.r - margin);
+      group.y = clamp(group.y!, group.r + margin, height - group.r - margin);
+    });
+
+  const simulation = d3
+    .forceSimulation(simulated)
+    .randomSource(d3.randomLcg(0.5))
+    .force('x', d3.forceX<SimulatedGroup>((d) => d.targetX).strength(0.05))
+    .force('y', d3.forceY<SimulatedGroup>((d) => d.targetY).strength(0.05))
+    .force(
+      'collide',
+      d3
+        .forceCollide<SimulatedGroup>((d) => d.r + margin)
+        .strength(1)
+        .iterations(4)
+    )
+    .stop();
+
+  for (let i = 0; i < ANCHORED_TICKS; i++) {
+    simulation.tick();
+    keepInBounds();
+  }
+
+  // Release the anchors so that the collision force alone separates any groups still overlapping
+  simulation.force('x', null).force('y', null).alpha(1);
+  for (let i = 0; i < SEPARATING_TICKS; i++) {
+    simulation.tick();
+    keepInBounds();
+  }
+
+  const placed = groups.map((group, i) => ({
+    ...group,
+    x: simulated[i].x!,
+    y: simulated[i].y!,
+  }));
+  if (!isValidPlacement(placed, width, height)) return packed;
+
+  return new Map(placed.map((group) => [group.name, group]));
+}
+
+/**
+ * Returns the anchor angle of each group, in radians clockwise from the positive x axis (so -π/2
+ * points up).
+ *
+ * @param groups - The groups
+ * @param placement - Where to place each group, optional
+ * @returns The angle of each group, in the order of the groups
+ */
+export function getAnchorAngles(
+  groups: GroupCircle[],
+  placement?: GroupPlacement
+): number[] {
+  const evenlySpaced = (index: number) =>
+    -Math.PI / 2 + (2 * Math.PI * index) / groups.length;
+
+  if (placement?.type === 'centroids') {
+    const centroids = groups.map(
+      (group) => placement.centroids[group.name] ?? null
+    );
+    if (centroids.every((centroid) => centroid !== null)) {
+      const meanLat = d3.mean(centroids, (centroid) => centroid!.lat)!;
+      const meanLong = d3.mean(centroids, (centroid) => centroid!.long)!;
+      // Degrees of longitude shrink towards the poles
+      const longScale = Math.cos((meanLat * Math.PI) / 180);
+
+      const offsets = centroids.map((centroid) => [
+        (centroid!.long - meanLong) * longScale,
+        // North is up, and the y axis points down
+        meanLat - centroid!.lat,
+      ]);
+      if (offsets.some(([dx, dy]) => dx !== 0 || dy !== 0)) {
+        return offsets.map(([dx, dy]) => Math.atan2(dy, dx));
+      }
+    }
+  }
+
+  if (placement?.type === 'order') {
+    // Groups missing from the order follow the named ones
+    const rank = (name: string) => {
+      const index = placement.order.indexOf(name);
+      return index === -1 ? placement.order.length : index;
+    };
+    const ordered = groups
+      .map((group, index) => ({ index, rank: rank(group.name) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+    const angles = new Array<number>(groups.length);
+    ordered.forEach(({ index }, position) => {
+      angles[index] = evenlySpaced(position);
+    });
+    return angles;
+  }
+
+  return groups.map((_, index) => evenlySpaced(index));
+}
+
+/**
+ * Checks that no two circles overlap and that every circle lies within the pack area.
+ */
+export function isValidPlacement(
+  circles: GroupCircle[],
+  width: number,
+  height: number
+): boolean {
+  const inBounds = circles.every(
+    (circle) =>
+      circle.x - circle.r >= -TOLERANCE &&
+      circle.y - circle.r >= -TOLERANCE &&
+      circle.x + circle.r <= width + TOLERANCE &&
+      circle.y + circle.r <= height + TOLERANCE
+  );
+
+  return (
+    inBounds &&
+    circles.every((a, i) =>
+      circles
+        .slice(i + 1)
+        .every((b) => Math.hypot(a.x - b.x, a.y - b.y) >= a.r + b.r - TOLERANCE)
+    )
+  );
+}
+
+/**
+ * Limits a value to a range, or to the middle of the range if it is empty.
+ */
+function clamp(value: number, min: number, max: number): number {
+  return min > max ? (min + max) / 2 : Math.min(max, Math.max(min, value));
+}
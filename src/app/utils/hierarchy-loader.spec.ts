@@ -0,0 +1,141 @@
+import * as d3 from 'd3';
+import { RecordIssue } from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { fromFlatRows, fromNestedJson } from './hierarchy-loader';
+
+describe('hierarchy loader', () => {
+  const metrics = new MetricRegistry([{ key: 'size', label: 'Size' }]);
+
+  it('should build a hierarchy of any depth from keyed nested JSON', () => {
+    const root = fromNestedJson(
+      {
+        World: {
+          Europe: { North: { Denmark: [{ name: 'Zealand', size: 3 }] } },
+        },
+      },
+      { name: 'name' },
+      metrics
+    );
+
+    const province =
+      root.children?.[0].children?.[0].children?.[0].children?.[0];
+    expect(root.name).toBe('World');
+    expect(province?.name).toBe('Zealand');
+    expect(province?.metrics?.['size']).toBe(3);
+  });
+
+  it('should read nested children, values and metadata from named records', () => {
+    const root = fromNestedJson(
+      {
+        path: 'src',
+        files: [
+          { path: 'main.ts', bytes: 120 },
+          {
+            path: 'lib',
+            files: [{ path: 'util.ts', bytes: '80', owner: 'ops' }],
+          },
+        ],
+      },
+      {
+        name: 'path',
+        children: 'files',
+        values: { size: 'bytes' },
+        metadata: ['owner'],
+      },
+      metrics
+    );
+
+    const nested = root.children?.[1].children?.[0];
+    expect(root.name).toBe('src');
+    expect(nested?.metrics?.['size']).toBe(80);
+    expect(nested?.metadata?.['owner']).toBe('ops');
+  });
+
+  it('should read values by year, with the latest year as the value', () => {
+    const root = fromNestedJson(
+      [{ name: 'Norway', size: { '1990': 4.2, '2020': '5.5', '2000': 4.5 } }],
+      { name: 'name', rootName: 'Countries' },
+      metrics
+    );
+
+    const norway = root.children?.[0];
+    expect(norway?.metrics?.['size']).toBe(5.5);
+    expect(norway?.series?.['size']).toEqual({
+      1990: 4.2,
+      2000: 4.5,
+      2020: 5.5,
+    });
+  });
+
+  it('should read coordinates only when both are valid', () => {
+    const root = fromNestedJson(
+      [
+        { name: 'Oslo', size: 1, lat: '59.9', long: 10.7 },
+        { name: 'Nowhere', size: 1, lat: 91, long: 10 },
+      ],
+      { name: 'name', lat: 'lat', long: 'long', rootName: 'Cities' },
+      metrics
+    );
+
+    expect(root.children?.[0]).toEqual(
+      jasmine.objectContaining({ lat: 59.9, long: 10.7 })
+    );
+    expect(root.children?.[1].lat).toBeUndefined();
+    expect(root.children?.[1].long).toBeUndefined();
+  });
+
+  it('should build a hierarchy from CSV rows with parent level columns', () => {
+    const rows = d3.csvParse(
+      'continent,country,size\nEurope,Denmark,5\nAsia,Japan,10\n'
+    );
+
+    const root = fromFlatRows(
+      rows,
+      { name: 'country', levels: ['continent'], rootName: 'World' },
+      metrics
+    );
+
+    expect(root.name).toBe('World');
+    expect(root.children?.map((child) => child.name)).toEqual([
+      'Europe',
+      'Asia',
+    ]);
+    expect(root.children?.[1].children?.[0].metrics?.['size']).toBe(10);
+  });
+
+  it('should build a hierarchy from CSV rows with id and parent id columns', () => {
+    const rows = d3.csvParse(
+      'id,parent,name,size\n1,,CEO,1\n2,1,CTO,1\n3,2,Dev,4\n'
+    );
+
+    const root = fromFlatRows(
+      rows,
+      { name: 'name', id: 'id', parentId: 'parent' },
+      metrics
+    );
+
+    expect(root.name).toBe('CEO');
+    expect(root.children?.[0].children?.[0].name).toBe('Dev');
+  });
+
+  it('should skip the rows below an invalid parent row and keep the others', () => {
+    const rows = d3.csvParse(
+      'id,parent,name,size\n1,,CEO,1\n2,1,CTO,-1\n3,2,Dev,4\n4,3,Intern,1\n5,1,CFO,2\n'
+    );
+    const issues: RecordIssue[] = [];
+
+    const root = fromFlatRows(
+      rows,
+      { name: 'name', id: 'id', parentId: 'parent' },
+      metrics,
+      issues
+    );
+
+    expect(root.children?.map((child) => child.name)).toEqual(['CFO']);
+    expect(issues.map((issue) => [issue.record, issue.message])).toEqual([
+      ['CTO', 'Size is negative'],
+      ['Dev', 'Parent "2" was skipped'],
+      ['Intern', 'Parent "3" was skipped'],
+    ]);
+  });
+});
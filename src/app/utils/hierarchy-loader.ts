@@ -0,0 +1,394 @@
+/**
+ * Handles building hierarchies of any depth from nested JSON or flat rows
+ */
+
+import * as d3 from 'd3';
+import {
+  FlatHierarchyMapping,
+  HierarchyMapping,
+  MetricKey,
+  NodeData,
+  RecordIssue,
+} from '../shared/types';
+import { MetricRegistry } from './metrics';
+import {
+  isValidUrl,
+  toCoordinate,
+  toNumber,
+  toYearValues,
+  validateRecord,
+} from './validate-data';
+import { getLatestValue } from './time-series';
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Builds a hierarchy from nested JSON of any depth.
+ *
+ * @remarks
+ * Objects whose keys are group names (e.g. `{ "Europe": { "Northern Europe": [...] } }`) become
+ * group nodes named after their keys. Arrays hold child records, and a record holding the mapped
+ * name field is a named node whose own children (if any) are read from the mapped children field.
+ * A top-level object with a single key becomes the root node, otherwise a root is created using
+ * `mapping.rootName`. Invalid records are skipped and reported in `issues`, and groups left with
+ * no valid records are dropped.
+ * @param data - The raw nested JSON
+ * @param mapping - Which fields hold the name, values and metadata of each record
+ * @param metrics - The registered metrics, used for value fields not set in the mapping
+ * @param issues - Collects the issues found with individual records
+ * @returns The root of the hierarchy
+ */
+export function fromNestedJson(
+  data: unknown,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry = new MetricRegistry(),
+  issues: RecordIssue[] = []
+): NodeData {
+  const childrenField = mapping.children ?? 'children';
+
+  const toChildren = (items: unknown[], parentName: string): NodeData[] =>
+    items
+      .map((item, i) =>
+        toNode(undefined, item, `Record ${i + 1} in ${parentName}`)
+      )
+      .filter((node): node is NodeData => node !== null);
+
+  const toNode = (
+    name: string | undefined,
+    value: unknown,
+    location: string
+  ): NodeData | null => {
+    if (Array.isArray(value)) {
+      const children = toChildren(value, name ?? location);
+      return children.length > 0 ? { name: name ?? '', children } : null;
+    }
+
+    if (!isRecord(value)) {
+      issues.push({
+        record: name ?? location,
+        message: 'Expected a record or a group of records',
+        severity: 'error',
+      });
+      return null;
+    }
+
+    // A record (named, or holding only plain values), which may have nested children of its own
+    if (mapping.name in value || !hasNestedValues(value)) {
+      const children = value[childrenField];
+      const hasChildren = Array.isArray(children) && children.length > 0;
+
+      const recordIssues = validateRecord(
+        value,
+        mapping,
+        metrics,
+        location,
+        !hasChildren
+      );
+      issues.push(...recordIssues);
+      if (recordIssues.some((issue) => issue.severity === 'error')) {
+        return null;
+      }
+
+      const node = toNodeData(value, mapping, metrics);
+      if (hasChildren) {
+        node.children = toChildren(children, node.name);
+      }
+      return node;
+    }
+
+    // A grouping object, keyed by the names of its children
+    const children = Object.entries(value)
+      .map(([key, child]) => toNode(key, child, key))
+      .filter((node): node is NodeData => node !== null);
+    return children.length > 0 ? { name: name ?? '', children } : null;
+  };
+
+  const rootName = mapping.rootName ?? 'Root';
+  const entries = isRecord(data) ? Object.entries(data) : [];
+  const root =
+    entries.length === 1 && !(mapping.name in (data as RawRecord))
+      ? toNode(entries[0][0], entries[0][1], entries[0][0])
+      : toNode(rootName, data, rootName);
+
+  return root ?? { name: rootName };
+}
+
+/**
+ * Builds a hierarchy from flat rows (e.g. a parsed CSV) using d3.stratify.
+ *
+ * @remarks
+ * With `levels`, each row is a leaf whose ancestors are named by the level columns, and the group
+ * nodes are created as needed. A root named `mapping.rootName` is added if there is more than one
+ * top-level group. With `id` and `parentId`, every row is a node and the row with an
+ * empty parent id is the root. Invalid rows, and with `parentId` the rows below them, are skipped and
+ * reported in `issues`.
+ * @param rows - The raw rows
+ * @param mapping - Which columns hold the hierarchy, name, values and metadata of each row
+ * @param metrics - The registered metrics, used for value columns not set in the mapping
+ * @param issues - Collects the issues found with individual rows
+ * @returns The root of the hierarchy
+ */
+export function fromFlatRows(
+  rows: RawRecord[],
+  mapping: FlatHierarchyMapping,
+  metrics: MetricRegistry = new MetricRegistry(),
+  issues: RecordIssue[] = []
+): NodeData {
+  let root: d3.HierarchyNode<RawRecord>;
+
+  // Rows referenced as a parent are internal nodes, all other rows are leaves
+  const parentIds = new Set(
+    mapping.levels ? [] : rows.map((row) => String(row[mapping.parentId]))
+  );
+
+  const validRows = rows.filter((row, i) => {
+    const isLeaf = mapping.levels
+      ? true
+      : !parentIds.has(String(row[mapping.id]));
+    const rowIssues = validateRecord(
+      row,
+      mapping,
+      metrics,
+      `Row ${i + 1}`,
+      isLeaf
+    );
+    issues.push(...rowIssues);
+    return !rowIssues.some((issue) => issue.severity === 'error');
+  });
+
+  if (mapping.levels) {
+    const levels = mapping.levels;
+    root = d3
+      .stratify<RawRecord>()
+      .path((row) =>
+        [...levels.map((level) => row[level]), row[mapping.name]]
+          .map((part) => `/${String(part ?? '').replace(/\//g, '\\/')}`)
+          .join('')
+      )(validRows);
+  } else {
+    const connectedRows = skipOrphanedRows(rows, validRows, mapping, issues);
+    root = d3
+      .stratify<RawRecord>()
+      .id((row) => String(row[mapping.id]))
+      .parentId((row) => toParentId(row[mapping.parentId]))(connectedRows);
+  }
+
+  const toNode = (node: d3.HierarchyNode<RawRecord>): NodeData => {
+    // Group nodes implied by a path have no row of their own, and a root is only implied when the
+    // rows have more than one top-level group
+    const data: NodeData = node.data
+      ? toNodeData(node.data, mapping, metrics)
+      : {
+          name: lastPathSegment(node.id ?? '') || (mapping.rootName ?? 'Root'),
+        };
+
+    if (node.children) {
+      data.children = node.children.map(toNode);
+    }
+    return data;
+  };
+
+  const hierarchy = toNode(root);
+
+  // d3.stratify collapses implied groups with a single child, so a single row becomes the root
+  if (mapping.levels && !hierarchy.children) {
+    return { name: mapping.rootName ?? 'Root', children: [hierarchy] };
+  }
+  return hierarchy;
+}
+
+/**
+ * Skips the rows below a skipped row, as their parent would be missing from the hierarchy, and
+ * reports an issue for each of them.
+ *
+ * @param rows - All the raw rows
+ * @param validRows - The rows without errors
+ * @param mapping - Which columns hold the id, parent id and name of each row
+ * @param issues - Collects an issue for each skipped row
+ * @returns The valid rows whose ancestors are all valid
+ */
+function skipOrphanedRows(
+  rows: RawRecord[],
+  validRows: RawRecord[],
+  mapping: HierarchyMapping & { id: string; parentId: string },
+  issues: RecordIssue[]
+): RawRecord[] {
+  const valid = new Set(validRows);
+  const skippedIds = new Set(
+    rows.filter((row) => !valid.has(row)).map((row) => String(row[mapping.id]))
+  );
+
+  // Skipping a row orphans its own children in turn, so repeat until no more rows are skipped
+  let orphans: RawRecord[];
+  do {
+    orphans = rows.filter((row) => {
+      const parentId = toParentId(row[mapping.parentId]);
+      return valid.has(row) && parentId !== null && skippedIds.has(parentId);
+    });
+    orphans.forEach((row) => {
+      valid.delete(row);
+      skippedIds.add(String(row[mapping.id]));
+
+      const name = row[mapping.name];
+      issues.push({
+        record:
+          typeof name === 'string' && name.trim() !== ''
+            ? name
+            : `Row ${rows.indexOf(row) + 1}`,
+        field: mapping.parentId,
+        message: `Parent "${row[mapping.parentId]}" was skipped`,
+        severity: 'error',
+      });
+    });
+  } while (orphans.length > 0);
+
+  return validRows.filter((row) => valid.has(row));
+}
+
+/**
+ * Returns the parent id of a row, or null for the root, which has an empty parent id.
+ */
+function toParentId(value: unknown): string | null {
+  return value === undefined || value === null || value === ''
+    ? null
+    : String(value);
+}
+
+/**
+ * Converts a single raw record into a node, without children.
+ *
+ * @param record - The raw record
+ * @param mapping - Which fields hold the name, values and metadata
+ * @param metrics - The registered metrics
+ * @returns The node
+ */
+function toNodeData(
+  record: RawRecord,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry
+): NodeData {
+  const node: NodeData = {
+    name: String(record[mapping.name] ?? ''),
+    metrics: readMetrics(record, mapping, metrics),
+  };
+
+  const series = readSeries(record, mapping, metrics);
+  if (Object.keys(series).length > 0) {
+    node.series = series;
+  }
+
+  // Invalid links are reported as warnings by the validator and left out here
+  const wikipedia = mapping.wikipedia && record[mapping.wikipedia];
+  if (isValidUrl(wikipedia)) {
+    node.wikipedia = wikipedia;
+  }
+  const flag = mapping.flag && record[mapping.flag];
+  if (isValidUrl(flag)) {
+    node.flag = flag;
+  }
+
+  // Coordinates are only kept in pairs, as the map layout needs both
+  const lat = mapping.lat && toCoordinate(record[mapping.lat], 90);
+  const long = mapping.long && toCoordinate(record[mapping.long], 180);
+  if (typeof lat === 'number' && typeof long === 'number') {
+    node.lat = lat;
+    node.long = long;
+  }
+
+  if (mapping.metadata) {
+    const metadata: Record<string, string | number> = {};
+    mapping.metadata.forEach((field) => {
+      const value = record[field];
+      if (typeof value === 'string' || typeof value === 'number') {
+        metadata[field] = value;
+      }
+    });
+    node.metadata = metadata;
+  }
+
+  return node;
+}
+
+/**
+ * Reads the value of every registered (non-derived) metric from a raw record. Of metrics with values
+ * by year, the value of the latest year is read.
+ *
+ * @param record - The raw record
+ * @param mapping - Mapping of metric keys to fields, overriding the registered fields
+ * @param metrics - The registered metrics
+ * @returns Mapping of metric key to value
+ */
+function readMetrics(
+  record: RawRecord,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry
+): Record<MetricKey, number> {
+  const values: Record<MetricKey, number> = {};
+
+  metrics.list().forEach((metric) => {
+    if (metric.derive) return;
+
+    const field = mapping.values?.[metric.key] ?? metric.field ?? metric.key;
+    const yearValues = toYearValues(record[field]);
+    const value = yearValues
+      ? getLatestValue(yearValues)
+      : toNumber(record[field]);
+    if (value !== undefined) {
+      values[metric.key] = value;
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Reads the values by year of the registered (non-derived) metrics that have them.
+ *
+ * @param record - The raw record
+ * @param mapping - Mapping of metric keys to fields, overriding the registered fields
+ * @param metrics - The registered metrics
+ * @returns Mapping of metric key to values by year, without the metrics of a single value
+ */
+function readSeries(
+  record: RawRecord,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry
+): Record<MetricKey, Record<number, number>> {
+  const series: Record<MetricKey, Record<number, number>> = {};
+
+  metrics.list().forEach((metric) => {
+    if (metric.derive) return;
+
+    const field = mapping.values?.[metric.key] ?? metric.field ?? metric.key;
+    const yearValues = toYearValues(record[field]);
+    if (yearValues && Object.keys(yearValues).length > 0) {
+      series[metric.key] = yearValues;
+    }
+  });
+
+  return series;
+}
+
+/**
+ * Returns the last segment of a d3.stratify path id, with escaped slashes restored.
+ */
+function lastPathSegment(id: string): string {
+  const segments = id.split(/(?<!\\)\//);
+  return segments[segments.length - 1].replace(/\\\//g, '/');
+}
+
+/**
+ * Returns true if any value of the record is an object or array, i.e. it groups other records.
+ */
+function hasNestedValues(record: RawRecord): boolean {
+  return Object.values(record).some(
+    (value) => typeof value === 'object' && value !== null
+  );
+}
+
+/**
+ * Returns true if the value is a plain object.
+ */
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,46 @@
+import * as d3 from 'd3';
+import { createHitTester } from './hit-test';
+
+type Datum = { value?: number; children?: Datum[] };
+
+describe('hit test', () => {
+  const outer = { name: 'outer', x: 100, y: 100, r: 100 };
+  const inner = { name: 'inner', x: 60, y: 100, r: 30 };
+  const small = { name: 'small', x: 150, y: 100, r: 5 };
+  const hitTest = createHitTester([outer, inner, small]);
+
+  it('should return the innermost circle containing the point', () => {
+    expect(hitTest(60, 100)).toBe(inner);
+    expect(hitTest(152, 101)).toBe(small);
+    expect(hitTest(100, 180)).toBe(outer);
+  });
+
+  it('should return undefined outside of all circles', () => {
+    expect(hitTest(195, 195)).toBeUndefined();
+    expect(hitTest(-1, 100)).toBeUndefined();
+  });
+
+  it('should match a linear search on a packed layout', () => {
+    const random = d3.randomLcg(42);
+    const data: Datum = {
+      children: d3.range(20).map(() => ({
+        children: d3.range(50).map(() => ({ value: random() })),
+      })),
+    };
+    const root = d3.pack<Datum>().size([500, 400])(
+      d3.hierarchy(data).sum((d) => d.value ?? 0)
+    );
+    const nodes = root.descendants();
+    const packHitTest = createHitTester(nodes);
+
+    for (let i = 0; i < 200; i++) {
+      const x = random() * 500;
+      const y = random() * 400;
+      const expected = nodes
+        .filter((node) => (x - node.x) ** 2 + (y - node.y) ** 2 <= node.r ** 2)
+        .sort((a, b) => a.r - b.r)[0];
+
+      expect(packHitTest(x, y)).toBe(expected);
+    }
+  });
+});
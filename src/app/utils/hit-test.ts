@@ -0,0 +1,83 @@
+/**
+ * Handles hit testing of circles, finding the circle under a point without a DOM element per circle
+ */
+
+import * as d3 from 'd3';
+
+export interface Circle {
+  x: number;
+  y: number;
+  r: number;
+}
+
+/**
+ * Finds the innermost circle containing a point, or undefined if no circle contains it.
+ */
+export type HitTester<T extends Circle> = (
+  x: number,
+  y: number
+) => T | undefined;
+
+/**
+ * Creates a hit tester for a set of circles, e.g. the nodes of a pack layout.
+ *
+ * @remarks
+ * Circles are indexed by their centres in quadtrees, one per power of two of the radius, so that
+ * each search only visits the quadrants within the largest radius of similarly sized circles.
+ * Otherwise a few large circles (e.g. regions) would force every search to visit the whole tree.
+ * Of nested circles, the smallest containing the point is returned.
+ * @param circles - The circles to test against
+ * @returns The hit tester
+ */
+export function createHitTester<T extends Circle>(circles: T[]): HitTester<T> {
+  const buckets = d3
+    .groups(
+      circles.filter((circle) => circle.r > 0),
+      (circle) => Math.ceil(Math.log2(circle.r))
+    )
+    .map(([, bucket]) => ({
+      maxRadius: d3.max(bucket, (circle) => circle.r) ?? 0,
+      tree: d3
+        .quadtree<T>()
+        .x((circle) => circle.x)
+        .y((circle) => circle.y)
+        .addAll(bucket),
+    }));
+
+  return (x, y) => {
+    let hit: T | undefined;
+
+    buckets.forEach(({ maxRadius, tree }) => {
+      tree.visit((quad, x0, y0, x1, y1) => {
+        // Skip quadrants whose circles cannot reach the point
+        if (
+          x < x0 - maxRadius ||
+          x > x1 + maxRadius ||
+          y < y0 - maxRadius ||
+          y > y1 + maxRadius
+        ) {
+          return true;
+        }
+
+        if (!quad.length) {
+          let leaf: d3.QuadtreeLeaf<T> | undefined = quad;
+          while (leaf) {
+            const circle = leaf.data;
+            const dx = x - circle.x;
+            const dy = y - circle.y;
+            if (
+              dx * dx + dy * dy <= circle.r * circle.r &&
+              (!hit || circle.r < hit.r)
+            ) {
+              hit = circle;
+            }
+            leaf = leaf.next;
+          }
+        }
+        return false;
+      });
+    });
+
+    return hit;
+  };
+}
@@ -0,0 +1,76 @@
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+import { layoutToCsv, toLayoutRows } from './layout-data';
+
+describe('layout data', () => {
+  const root: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          { name: 'Norway', metrics: { population: 5, landAreaKM2: 365 } },
+          { name: 'Denmark, Faroe', metrics: { population: 3 } },
+        ],
+      },
+      {
+        name: 'Southern Europe',
+        children: [{ name: 'Italy', metrics: { population: 12 } }],
+      },
+    ],
+  };
+  const nodes = d3
+    .pack<NodeData>()
+    .size([300, 200])(
+      d3.hierarchy(root).sum((d) => d.metrics?.['population'] ?? 0)
+    )
+    .descendants();
+  const metricKeys = ['population', 'landAreaKM2'];
+
+  it('should list every node with its parent and circle', () => {
+    const rows = toLayoutRows(nodes, metricKeys);
+    const italy = rows.find((row) => row.name === 'Italy')!;
+    const italyNode = nodes.find((node) => node.data.name === 'Italy')!;
+
+    expect(rows.length).toBe(6);
+    expect(rows[0]).toEqual(
+      jasmine.objectContaining({ name: 'Europe', parent: '', depth: 0 })
+    );
+    expect(italy.parent).toBe('Southern Europe');
+    expect(italy.x).toBeCloseTo(italyNode.x, 2);
+    expect(italy.y).toBeCloseTo(italyNode.y, 2);
+    expect(italy.r).toBeCloseTo(italyNode.r, 2);
+  });
+
+  it('should give each node its metrics, totalled for groups, and share', () => {
+    const rows = toLayoutRows(nodes, metricKeys);
+    const byName = new Map(rows.map((row) => [row.name, row]));
+
+    expect(byName.get('Norway')!.metrics).toEqual({
+      population: 5,
+      landAreaKM2: 365,
+    });
+    expect(byName.get('Denmark, Faroe')!.metrics['landAreaKM2']).toBeNull();
+    expect(byName.get('Northern Europe')!.metrics['population']).toBe(8);
+    expect(byName.get('Europe')!.metrics).toEqual({
+      population: 20,
+      landAreaKM2: 365,
+    });
+    expect(byName.get('Europe')!.share).toBe(1);
+    expect(byName.get('Northern Europe')!.share).toBe(0.4);
+    expect(byName.get('Italy')!.share).toBe(0.6);
+  });
+
+  it('should write CSV with a header and quoted fields', () => {
+    const csv = layoutToCsv(toLayoutRows(nodes, metricKeys), metricKeys);
+    const lines = csv.split('\n');
+
+    expect(lines[0]).toBe(
+      'name,parent,depth,x,y,r,population,landAreaKM2,share'
+    );
+    expect(lines.length).toBe(7);
+    expect(csv).toMatch(
+      /\n"Denmark, Faroe",Northern Europe,2,[\d.]+,[\d.]+,[\d.]+,3,,0\.15/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Handles the tabular representation of the computed pack layout, exported as CSV or JSON
+ */
+
+import * as d3 from 'd3';
+import { MetricKey, NodeData } from '../shared/types';
+
+// Decimal places kept of the layout coordinates
+const COORDINATE_PRECISION = 2;
+
+export interface LayoutRow {
+  name: string;
+  // Name of the parent node, or an empty string for the root
+  parent: string;
+  depth: number;
+  // Centre and radius of the node's circle, in the coordinates of the pack layout
+  x: number;
+  y: number;
+  r: number;
+  // Values of the exported metrics, totalled over the leaves for groups, null where there is none
+  metrics: Record<MetricKey, number | null>;
+  // Share of the root's total of the metric the circles are sized by
+  share: number | null;
+}
+
+/**
+ * Flattens the nodes of a pack layout into one row per node, in hierarchy order.
+ *
+ * @param nodes - The laid out nodes, root first
+ * @param metricKeys - Keys of the metrics to include
+ * @returns The layout rows
+ */
+export function toLayoutRows(
+  nodes: d3.HierarchyCircularNode<NodeData>[],
+  metricKeys: MetricKey[]
+): LayoutRow[] {
+  const total = nodes.find((node) => node.depth === 0)?.value ?? 0;
+  const round = (value: number) => Number(value.toFixed(COORDINATE_PRECISION));
+
+  return nodes.map((node) => ({
+    name: node.data.name,
+    parent: node.parent?.data.name ?? '',
+    depth: node.depth,
+    x: round(node.x),
+    y: round(node.y),
+    r: round(node.r),
+    metrics: Object.fromEntries(
+      metricKeys.map((key) => [key, getMetricTotal(node, key)])
+    ),
+    share: total > 0 ? (node.value ?? 0) / total : null,
+  }));
+}
+
+/**
+ * Returns a node's value of a metric. Groups without their own value get the total of their
+ * leaves' values.
+ */
+function getMetricTotal(
+  node: d3.HierarchyNode<NodeData>,
+  key: MetricKey
+): number | null {
+  const value = node.data.metrics?.[key];
+  if (value !== undefined || !node.children) return value ?? null;
+
+  const values = node
+    .leaves()
+    .map((leaf) => leaf.data.metrics?.[key])
+    .filter((leafValue) => leafValue !== undefined);
+  return values.length > 0 ? d3.sum(values) : null;
+}
+
+/**
+ * Writes layout rows as CSV, with a header row and one column per metric.
+ *
+ * @param rows - The layout rows
+ * @param metricKeys - Keys of the metric columns, in order
+ * @returns The CSV document
+ */
+export function layoutToCsv(
+  rows: LayoutRow[],
+  metricKeys: MetricKey[]
+): string {
+  return d3.csvFormatRows([
+    ['name', 'parent', 'depth', 'x', 'y', 'r', ...metricKeys, 'share'],
+    ...rows.map((row) => [
+      row.name,
+      row.parent,
+      String(row.depth),
+      String(row.x),
+      String(row.y),
+      String(row.r),
+      ...metricKeys.map((key) => String(row.metrics[key] ?? '')),
+      String(row.share ?? ''),
+    ]),
+  ]);
+}
@@ -0,0 +1,103 @@
+/**
+ * Handles the registry of metrics a dataset can be visualised by
+ */
+
+import * as d3 from 'd3';
+import { MetricDefinition, MetricKey } from '../shared/types';
+
+// Metrics available in the bundled European countries dataset
+export const DEFAULT_METRICS: MetricDefinition[] = [
+  {
+    key: 'landAreaKM2',
+    label: 'Land Area',
+    unit: 'km²',
+    field: 'land_area_km2',
+  },
+  {
+    key: 'population',
+    label: 'Population',
+    field: 'population',
+  },
+  {
+    key: 'density',
+    label: 'Density',
+    unit: 'people/km²',
+    derive: {
+      type: 'ratio',
+      numerator: 'population',
+      denominator: 'landAreaKM2',
+    },
+    format: d3.format(',.1f'),
+  },
+  {
+    key: 'regionShare',
+    label: 'Region Share',
+    derive: { type: 'shareOfParent', of: 'population' },
+    format: d3.format('.1%'),
+  },
+  {
+    key: 'europeShare',
+    label: 'Europe Share',
+    derive: { type: 'shareOfRoot', of: 'population' },
+    format: d3.format('.2%'),
+  },
+];
+
+export class MetricRegistry {
+  private metrics = new Map<MetricKey, MetricDefinition>();
+
+  constructor(definitions: MetricDefinition[] = DEFAULT_METRICS) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Registers a metric, replacing any existing metric with the same key.
+   *
+   * @param definition - The metric to register
+   * @returns The registry, for chaining
+   */
+  public register(definition: MetricDefinition): this {
+    this.metrics.set(definition.key, definition);
+    return this;
+  }
+
+  /**
+   * Returns the metric registered under the given key, if any.
+   *
+   * @param key - The metric key
+   */
+  public get(key: MetricKey): MetricDefinition | undefined {
+    return this.metrics.get(key);
+  }
+
+  /**
+   * Returns true if a metric is registered under the given key.
+   *
+   * @param key - The metric key
+   */
+  public has(key: MetricKey): boolean {
+    return this.metrics.has(key);
+  }
+
+  /**
+   * Returns all registered metrics in registration order.
+   */
+  public list(): MetricDefinition[] {
+    return Array.from(this.metrics.values());
+  }
+
+  /**
+   * Formats a value of the given metric for display, using the metric's formatter and unit.
+   *
+   * @param key - The metric key
+   * @param value - The value to format
+   * @returns The formatted value, e.g. "42,924 km²"
+   */
+  public format(key: MetricKey, value: number): string {
+    const definition = this.get(key);
+    const text = definition?.format
+      ? definition.format(value)
+      : value.toLocaleString();
+    return definition?.unit ? `${text} ${definition.unit}` : text;
+  }
+}
@@ -0,0 +1,35 @@
+import { createImagePdf } from './pdf';
+
+describe('pdf', () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+  const pdf = createImagePdf(jpeg, 20, 10, 150, 75);
+  const text = new TextDecoder('latin1').decode(pdf);
+
+  it('should write a complete document', () => {
+    expect(text.startsWith('%PDF-1.4\n')).toBeTrue();
+    expect(text.endsWith('%%EOF\n')).toBeTrue();
+    expect(text).toContain('/MediaBox [0 0 150 75]');
+    expect(text).toContain('/Width 20 /Height 10');
+  });
+
+  it('should point the cross-reference table at each object', () => {
+    const xref = text.slice(text.indexOf('xref\n'));
+    const offsets = xref
+      .split('\n')
+      .filter((line) => line.endsWith(' n '))
+      .map((line) => Number(line.slice(0, 10)));
+
+    expect(offsets.length).toBe(5);
+    offsets.forEach((offset, index) =>
+      expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`))
+    );
+  });
+
+  it('should embed the image data unchanged', () => {
+    const start = text.indexOf('stream\n') + 'stream\n'.length;
+
+    expect(Array.from(pdf.slice(start, start + jpeg.length))).toEqual(
+      Array.from(jpeg)
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Handles writing of minimal single-page PDF documents holding an image
+ */
+
+// Conversion of CSS pixels to PDF points (1px = 1/96in, 1pt = 1/72in)
+export const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Creates a single-page PDF document showing a JPEG image scaled to fill the page.
+ *
+ * @param jpeg - The JPEG image data
+ * @param imageWidth - Width of the image in pixels
+ * @param imageHeight - Height of the image in pixels
+ * @param pageWidth - Width of the page in points
+ * @param pageHeight - Height of the page in points
+ * @returns The PDF document
+ */
+export function createImagePdf(
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number,
+  pageHeight: number
+): Uint8Array {
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode ' +
+        `/Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ];
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+
+  // Cross-reference table of the byte offset of each object
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) =>
+    write(`${String(offset).padStart(10, '0')} 00000 n \n`)
+  );
+  write(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+}
@@ -2,41 +2,51 @@
  * Handles data processing
  */
 
-import * as d3 from 'd3';
-import { NodeData, CountryRawData } from '../shared/types';
+import {
+  FlatHierarchyMapping,
+  HierarchyMapping,
+  NodeData,
+  RecordIssue,
+} from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { computeDerivedMetrics } from './derived-metrics';
+import { fromNestedJson } from './hierarchy-loader';
 
-/**
- * Reads in data from the JSON and returns it.
- *
- * @returns JSON data
- */
-export async function loadData(): Promise<any> {
-  const data = await d3.json('/assets/europe_population_enriched.json');
-  return data;
-}
+// Mapping of the bundled European countries dataset: Europe → region → country
+export const EUROPE_MAPPING: HierarchyMapping = {
+  name: 'country',
+  wikipedia: 'wikipedia',
+  flag: 'flag',
+  lat: 'latitude',
+  long: 'longitude',
+};
+
+// Mapping of the same dataset as CSV, with one row per country and a column naming its region
+export const EUROPE_CSV_MAPPING: FlatHierarchyMapping = {
+  ...EUROPE_MAPPING,
+  levels: ['region'],
+  rootName: 'Europe',
+};
 
 /**
- * Transforms raw data from JSON into hierarchy format expected by d3's circular pack.
+ * Transforms raw nested data from JSON into hierarchy format expected by d3's circular pack. Derived
+ * metrics are computed once here, after the raw metrics have been read.
  *
  * @param data - The raw data from the JSON
+ * @param metrics - The metrics to read from each record
+ * @param mapping - Which fields hold the name, values and metadata of each record
+ * @param issues - Collects the issues found with individual records, which are skipped if invalid
  *
  * @returns - The transformed data
  */
 export function transformData(
-  data: Record<'Europe', CountryRawData>
+  data: unknown,
+  metrics: MetricRegistry = new MetricRegistry(),
+  mapping: HierarchyMapping = EUROPE_MAPPING,
+  issues: RecordIssue[] = []
 ): NodeData {
-  const regions: NodeData[] = Object.entries(data.Europe).map(
-    ([region, countries]) => ({
-      name: region,
-      children: countries.map((country) => ({
-        name: country['country'] as string,
-        population: country['population'] as number,
-        wikipedia: country['wikipedia'] as string,
-        flag: country['flag'] as string,
-        landAreaKM2: country['land_area_km2'] as number,
-      })),
-    })
+  return computeDerivedMetrics(
+    fromNestedJson(data, mapping, metrics, issues),
+    metrics
   );
-
-  return { name: 'Europe', children: regions };
 }
@@ -0,0 +1,102 @@
+import { NodeData } from '../shared/types';
+import { createHierarchy } from '../circular-pack/layout';
+import { DEFAULT_METRICS } from './metrics';
+import { summariseRegion } from './region-summary';
+
+describe('region summary', () => {
+  const data: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          { name: 'Denmark', metrics: { landAreaKM2: 40000, population: 6 } },
+          { name: 'Norway', metrics: { landAreaKM2: 360000, population: 5 } },
+          { name: 'Iceland', metrics: { landAreaKM2: 100000 } },
+          { name: 'Faroe Islands' },
+        ],
+      },
+      {
+        name: 'Southern Europe',
+        children: [
+          { name: 'Italy', metrics: { landAreaKM2: 300000, population: 59 } },
+        ],
+      },
+    ],
+  };
+
+  const summarise = (valueKey: string) => {
+    const root = createHierarchy(data, valueKey);
+    // Regions are sorted by value, so the region is found by name
+    const region = root.children!.find(
+      (child) => child.data.name === 'Northern Europe'
+    )!;
+    return summariseRegion(region, DEFAULT_METRICS, valueKey);
+  };
+
+  it('should total, average and take the median of the dataset metrics', () => {
+    const summary = summarise('landAreaKM2');
+
+    expect(summary.name).toBe('Northern Europe');
+    expect(summary.countryCount).toBe(4);
+    expect(summary.metrics).toEqual([
+      {
+        key: 'landAreaKM2',
+        label: 'Land Area',
+        total: 500000,
+        mean: 500000 / 3,
+        median: 100000,
+      },
+      {
+        key: 'population',
+        label: 'Population',
+        total: 11,
+        mean: 5.5,
+        median: 5.5,
+      },
+    ]);
+  });
+
+  it('should find the largest and smallest countries by the sizing metric', () => {
+    const area = summarise('landAreaKM2');
+    const population = summarise('population');
+
+    expect(area.largest?.data.name).toBe('Norway');
+    expect(area.smallest?.data.name).toBe('Denmark');
+    expect(population.largest?.data.name).toBe('Denmark');
+    expect(population.smallest?.data.name).toBe('Norway');
+  });
+
+  it("should give each country's share of the region", () => {
+    const summary = summarise('landAreaKM2');
+
+    expect(summary.shares.map((share) => share.data.name)).toEqual([
+      'Norway',
+      'Iceland',
+      'Denmark',
+    ]);
+    expect(summary.shares.map((share) => share.share)).toEqual([
+      0.72, 0.2, 0.08,
+    ]);
+  });
+
+  it('should summarise a region without values', () => {
+    const root = createHierarchy(
+      {
+        name: 'Europe',
+        children: [{ name: 'Empty', children: [{ name: 'A' }] }],
+      },
+      'population'
+    );
+    const summary = summariseRegion(
+      root.children![0],
+      DEFAULT_METRICS,
+      'population'
+    );
+
+    expect(summary.countryCount).toBe(1);
+    expect(summary.metrics).toEqual([]);
+    expect(summary.largest).toBeNull();
+    expect(summary.shares).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Handles the summary statistics of a region shown when it is selected
+ */
+
+import * as d3 from 'd3';
+import { MetricDefinition, MetricKey, NodeData } from '../shared/types';
+
+export interface MetricSummary {
+  key: MetricKey;
+  label: string;
+  total: number;
+  mean: number;
+  median: number;
+}
+
+export interface CountryShare {
+  data: NodeData;
+  // Value of the metric sizing the circles, and its share of the region's value
+  value: number;
+  share: number;
+}
+
+export interface RegionSummary {
+  name: string;
+  countryCount: number;
+  // Metric sizing the circles, which the largest and smallest countries and the shares are by
+  valueKey: MetricKey;
+  // Totals, averages and medians of the metrics read from the dataset
+  metrics: MetricSummary[];
+  largest: CountryShare | null;
+  smallest: CountryShare | null;
+  // Countries with a value of the metric, largest share first
+  shares: CountryShare[];
+}
+
+/**
+ * Summarises the countries of a region from its hierarchy node, whose values are the sums of the
+ * metric sizing the circles.
+ *
+ * @remarks
+ * Derived metrics (e.g. densities and shares) are left out of the metric summaries, as their totals
+ * are not meaningful. Countries without a value of the sizing metric are counted but have no share.
+ * @param region - The region's node in the hierarchy
+ * @param metrics - The registered metrics, in display order
+ * @param valueKey - Key of the metric sizing the circles
+ * @returns The region summary
+ */
+export function summariseRegion(
+  region: d3.HierarchyNode<NodeData>,
+  metrics: MetricDefinition[],
+  valueKey: MetricKey
+): RegionSummary {
+  const countries = region.leaves().map((leaf) => leaf.data);
+
+  const metricSummaries = metrics
+    .filter((metric) => !metric.derive)
+    .flatMap((metric) => {
+      const values = countries
+        .map((country) => country.metrics?.[metric.key])
+        .filter((value): value is number => Number.isFinite(value));
+      if (values.length === 0) return [];
+
+      return [
+        {
+          key: metric.key,
+          label: metric.label,
+          total: d3.sum(values),
+          mean: d3.mean(values)!,
+          median: d3.median(values)!,
+        },
+      ];
+    });
+
+  const total = region.value ?? 0;
+  const shares = region
+    .leaves()
+    .filter((leaf) => Number.isFinite(leaf.data.metrics?.[valueKey]))
+    .map((leaf) => ({
+      data: leaf.data,
+      value: leaf.value ?? 0,
+      share: total > 0 ? (leaf.value ?? 0) / total : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    name: region.data.name,
+    countryCount: countries.length,
+    valueKey,
+    metrics: metricSummaries,
+    largest: shares[0] ?? null,
+    smallest: shares[shares.length - 1] ?? null,
+    shares,
+  };
+}
@@ -0,0 +1,55 @@
+import { NodeData } from '../shared/types';
+import { matchScore, normaliseText, searchNodes } from './search';
+
+describe('search', () => {
+  const root: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Western Europe',
+        children: [{ name: 'Switzerland' }, { name: 'Netherlands' }],
+      },
+      {
+        name: 'Eastern Europe',
+        children: [{ name: 'Czechia (Česko)' }, { name: 'Slovakia' }],
+      },
+    ],
+  };
+
+  it('should ignore case and diacritics', () => {
+    expect(normaliseText('Česko')).toBe('cesko');
+    expect(matchScore('cesko', 'Czechia (Česko)')).not.toBeNull();
+    expect(matchScore('ČESKO', 'Czechia (Česko)')).not.toBeNull();
+  });
+
+  it('should match the letters of the query in order', () => {
+    expect(matchScore('swtz', 'Switzerland')).not.toBeNull();
+    expect(matchScore('ztws', 'Switzerland')).toBeNull();
+  });
+
+  it('should rank prefixes above words and substrings above fuzzy matches', () => {
+    const prefix = matchScore('ma', 'Malta')!;
+    const word = matchScore('ma', 'Isle of Man')!;
+    const substring = matchScore('ma', 'Romania')!;
+    const fuzzy = matchScore('mla', 'Malta')!;
+
+    expect(prefix).toBeGreaterThan(word);
+    expect(word).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(fuzzy);
+  });
+
+  it('should search regions and countries, best match first', () => {
+    const results = searchNodes(root, 'e');
+
+    expect(results.map((result) => result.data.name)).toContain(
+      'Eastern Europe'
+    );
+    expect(results[0].data.name).toBe('Eastern Europe');
+    expect(searchNodes(root, 'swi')[0]).toEqual(
+      jasmine.objectContaining({
+        parentName: 'Western Europe',
+        isLeaf: true,
+      })
+    );
+  });
+});
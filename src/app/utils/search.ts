@@ -0,0 +1,93 @@
+/**
+ * Handles fuzzy searching of the nodes of the hierarchy by name
+ */
+
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+
+export interface SearchResult {
+  data: NodeData;
+  // Name of the parent node, or null for nodes directly below the root
+  parentName: string | null;
+  isLeaf: boolean;
+  score: number;
+}
+
+/**
+ * Normalises text for matching: lower case, with diacritics removed (e.g. "Česko" becomes
+ * "cesko").
+ *
+ * @param text - The text to normalise
+ * @returns The normalised text
+ */
+export function normaliseText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Scores how well a query matches a text, ignoring case and diacritics.
+ *
+ * @remarks
+ * Matches are ranked, best first: text starting with the query, a word starting with the query,
+ * the query anywhere in the text, then the letters of the query in order with gaps in between
+ * (e.g. "swtz" matches "Switzerland"). Within each rank, closer matches score higher.
+ * @param query - The search query
+ * @param text - The text to match against
+ * @returns The score, higher is better, or null if the text does not match
+ */
+export function matchScore(query: string, text: string): number | null {
+  const normalisedQuery = normaliseText(query).trim();
+  const normalisedText = normaliseText(text);
+  if (normalisedQuery === '') return null;
+
+  const index = normalisedText.indexOf(normalisedQuery);
+  if (index === 0) return 400 - normalisedText.length / 100;
+  if (index > 0 && /\W/.test(normalisedText[index - 1])) {
+    return 300 - index / 100;
+  }
+  if (index > 0) return 200 - index / 100;
+
+  // Letters of the query in order, fewer skipped letters score higher
+  let position = -1;
+  let gaps = 0;
+  for (const letter of normalisedQuery) {
+    const next = normalisedText.indexOf(letter, position + 1);
+    if (next === -1) return null;
+    if (position >= 0) gaps += next - position - 1;
+    position = next;
+  }
+  return 100 - gaps;
+}
+
+/**
+ * Searches all nodes below the root by name.
+ *
+ * @param root - Root node of the hierarchy
+ * @param query - The search query
+ * @returns The matching nodes, best match first
+ */
+export function searchNodes(root: NodeData, query: string): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  d3.hierarchy(root).each((node) => {
+    if (node.depth === 0) return;
+
+    const score = matchScore(query, node.data.name);
+    if (score === null) return;
+
+    results.push({
+      data: node.data,
+      parentName:
+        node.parent && node.parent.depth > 0 ? node.parent.data.name : null,
+      isLeaf: !node.children,
+      score,
+    });
+  });
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.data.name.localeCompare(b.data.name)
+  );
+}
@@ -0,0 +1,44 @@
+import { Sonifier, createPitchScale } from './sonification';
+
+describe('sonification', () => {
+  it('should map larger values to higher pitches', () => {
+    const pitch = createPitchScale([10, 40, 90]);
+
+    expect(pitch(0)).toBe(220);
+    expect(pitch(90)).toBe(880);
+    expect(pitch(40)).toBeGreaterThan(pitch(10));
+  });
+
+  it('should step through every item, then end', (done) => {
+    const sonifier = new Sonifier(1);
+    const announced: string[] = [];
+
+    sonifier.play(
+      [
+        { value: 2, description: 'Italy' },
+        { value: 1, description: 'Malta' },
+      ],
+      (item) => announced.push(item.description),
+      () => {
+        expect(announced).toEqual(['Italy', 'Malta']);
+        expect(sonifier.isPlaying).toBeFalse();
+        sonifier.destroy();
+        done();
+      }
+    );
+  });
+
+  it('should end at once when there is nothing to play', () => {
+    const sonifier = new Sonifier(1);
+    let ended = false;
+
+    sonifier.play(
+      [],
+      () => {},
+      () => (ended = true)
+    );
+
+    expect(ended).toBeTrue();
+    expect(sonifier.isPlaying).toBeFalse();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Handles the audio summary of the chart, which plays one tone per node with a pitch that rises
+ * with its value
+ */
+
+import * as d3 from 'd3';
+
+export interface SonificationItem {
+  value: number;
+  // Announced to screen readers while the tone of the item plays
+  description: string;
+}
+
+// Pitch range of the tones in Hz, from the smallest to the largest value
+const PITCH_RANGE: [number, number] = [220, 880];
+
+/**
+ * Creates the scale mapping values to tone pitches. A square root scale is used, so that pitch
+ * follows circle radius the same way circle area follows the value.
+ *
+ * @param values - The values to be played
+ * @returns Scale from value to pitch in Hz
+ */
+export function createPitchScale(
+  values: number[]
+): d3.ScalePower<number, number> {
+  return d3
+    .scaleSqrt()
+    .domain([0, d3.max(values) ?? 1])
+    .range(PITCH_RANGE)
+    .clamp(true);
+}
+
+/**
+ * Plays a sequence of items as tones with the Web Audio API. Where audio is not available, the
+ * items are still stepped through, so their descriptions are announced.
+ */
+export class Sonifier {
+  private context: AudioContext | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private oscillator: OscillatorNode | null = null;
+  private onEnd: (() => void) | null = null;
+
+  /**
+   * @param noteDuration - Duration of each tone in milliseconds
+   */
+  constructor(private readonly noteDuration = 500) {}
+
+  public get isPlaying(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Plays the items in order, stopping any sequence already playing.
+   *
+   * @param items - The items to play
+   * @param onStep - Called as each item starts playing
+   * @param onEnd - Called once the last item has played, the sequence is stopped, or at once when
+   * there are no items
+   */
+  public play(
+    items: SonificationItem[],
+    onStep: (item: SonificationItem, index: number) => void,
+    onEnd: () => void = () => {}
+  ): void {
+    this.stop();
+    if (items.length === 0) {
+      onEnd();
+      return;
+    }
+
+    const pitch = createPitchScale(items.map((item) => item.value));
+    this.onEnd = onEnd;
+
+    const step = (index: number) => {
+      if (index >= items.length) {
+        this.stop();
+        return;
+      }
+
+      const item = items[index];
+      this.playTone(pitch(item.value));
+      onStep(item, index);
+      this.timer = setTimeout(() => step(index + 1), this.noteDuration);
+    };
+    step(0);
+  }
+
+  /**
+   * Stops the sequence being played.
+   */
+  public stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.oscillator?.stop();
+    this.oscillator = null;
+
+    const onEnd = this.onEnd;
+    this.onEnd = null;
+    onEnd?.();
+  }
+
+  /**
+   * Stops playing and releases the audio context.
+   */
+  public destroy(): void {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+  }
+
+  /**
+   * Plays a single tone, fading it out just before the next one starts.
+   *
+   * @param frequency - Pitch of the tone in Hz
+   */
+  private playTone(frequency: number): void {
+    if (typeof AudioContext === 'undefined') return;
+
+    this.context ??= new AudioContext();
+    const now = this.context.currentTime;
+    const duration = (this.noteDuration / 1000) * 0.9;
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.2, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+    gain.connect(this.context.destination);
+
+    this.oscillator?.stop();
+    this.oscillator = this.context.createOscillator();
+    this.oscillator.frequency.value = frequency;
+    this.oscillator.connect(gain);
+    this.oscillator.start(now);
+    this.oscillator.stop(now + duration);
+  }
+}
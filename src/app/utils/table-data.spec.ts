@@ -0,0 +1,69 @@
+import { NodeData } from '../shared/types';
+import { sortTableRows, toTableRows } from './table-data';
+
+describe('table data', () => {
+  const root: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          { name: 'Norway', metrics: { population: 5.5 } },
+          { name: 'Denmark', metrics: { population: 5.9 } },
+        ],
+      },
+      {
+        name: 'Southern Europe',
+        children: [
+          { name: 'Italy', metrics: { population: 59 } },
+          { name: 'Malta' },
+        ],
+      },
+    ],
+  };
+
+  it('should list one row per leaf with its group', () => {
+    const rows = toTableRows(root);
+
+    expect(rows.map((row) => row.data.name)).toEqual([
+      'Norway',
+      'Denmark',
+      'Italy',
+      'Malta',
+    ]);
+    expect(rows[0].group).toBe('Northern Europe');
+    expect(rows[0].key).toBe('Northern Europe/Norway');
+  });
+
+  it('should only list the rows within the focused group', () => {
+    const rows = toTableRows(root, 'Southern Europe');
+
+    expect(rows.map((row) => row.data.name)).toEqual(['Italy', 'Malta']);
+  });
+
+  it('should sort on a metric, placing missing values last', () => {
+    const names = (direction: 'ascending' | 'descending') =>
+      sortTableRows(toTableRows(root), 'population', direction).map(
+        (row) => row.data.name
+      );
+
+    expect(names('descending')).toEqual([
+      'Italy',
+      'Denmark',
+      'Norway',
+      'Malta',
+    ]);
+    expect(names('ascending')).toEqual(['Norway', 'Denmark', 'Italy', 'Malta']);
+  });
+
+  it('should sort on the name column', () => {
+    const rows = sortTableRows(toTableRows(root), 'name', 'ascending');
+
+    expect(rows.map((row) => row.data.name)).toEqual([
+      'Denmark',
+      'Italy',
+      'Malta',
+      'Norway',
+    ]);
+  });
+});
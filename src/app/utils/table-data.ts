@@ -0,0 +1,89 @@
+/**
+ * Handles the tabular representation of the hierarchy shown by the data table view
+ */
+
+import * as d3 from 'd3';
+import { MetricKey, NodeData } from '../shared/types';
+
+// Columns that can be sorted on besides the metrics
+export const NAME_COLUMN = 'name';
+export const GROUP_COLUMN = 'group';
+
+export type SortDirection = 'ascending' | 'descending';
+
+export interface TableRow {
+  // Unique key of the row: names of the node's ancestors below the root and its own name
+  key: string;
+  data: NodeData;
+  // Name of the group (parent node) the row belongs to
+  group: string;
+}
+
+/**
+ * Flattens a hierarchy into one row per leaf node, optionally limited to the leaves within a
+ * focused group.
+ *
+ * @param root - Root node of the hierarchy
+ * @param focusName - Name of the group to limit the rows to, or null for all rows
+ * @returns Table rows in hierarchy order
+ */
+export function toTableRows(
+  root: NodeData,
+  focusName: string | null = null
+): TableRow[] {
+  return d3
+    .hierarchy(root)
+    .leaves()
+    .filter(
+      (leaf) =>
+        focusName === null ||
+        leaf
+          .ancestors()
+          .some(
+            (ancestor) => ancestor.depth > 0 && ancestor.data.name === focusName
+          )
+    )
+    .map((leaf) => ({
+      key: leaf
+        .ancestors()
+        .slice(0, -1)
+        .reverse()
+        .map((ancestor) => ancestor.data.name)
+        .join('/'),
+      data: leaf.data,
+      group: leaf.parent && leaf.parent.depth > 0 ? leaf.parent.data.name : '',
+    }));
+}
+
+/**
+ * Sorts table rows on a column. Text columns are compared by locale, metric columns by value, with
+ * rows missing the metric placed last in either direction.
+ *
+ * @param rows - The rows to sort
+ * @param column - The name or group column, or the key of a metric
+ * @param direction - Sort direction
+ * @returns A sorted copy of the rows
+ */
+export function sortTableRows(
+  rows: TableRow[],
+  column: typeof NAME_COLUMN | typeof GROUP_COLUMN | MetricKey,
+  direction: SortDirection
+): TableRow[] {
+  const sign = direction === 'ascending' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    if (column === NAME_COLUMN) {
+      return sign * a.data.name.localeCompare(b.data.name);
+    }
+    if (column === GROUP_COLUMN) {
+      return sign * a.group.localeCompare(b.group);
+    }
+
+    const valueA = a.data.metrics?.[column];
+    const valueB = b.data.metrics?.[column];
+    if (valueA === undefined || valueB === undefined) {
+      return Number(valueA === undefined) - Number(valueB === undefined);
+    }
+    return sign * (valueA - valueB);
+  });
+}
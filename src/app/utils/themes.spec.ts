@@ -0,0 +1,66 @@
+import * as d3 from 'd3';
+import { ChartTheme } from '../shared/types';
+import {
+  DARK_THEME,
+  HIGH_CONTRAST_THEME,
+  LIGHT_THEME,
+  THEMES,
+  resolveTheme,
+  toCssProperties,
+} from './themes';
+
+describe('themes', () => {
+  /**
+   * Returns the WCAG contrast ratio of two colours.
+   */
+  function contrast(a: string, b: string): number {
+    const luminance = (colour: string) => {
+      const { r, g, b } = d3.rgb(colour);
+      const [lr, lg, lb] = [r, g, b].map((channel) => {
+        const c = channel / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+      });
+      return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+    };
+    const [lighter, darker] = [luminance(a), luminance(b)].sort(
+      (x, y) => y - x
+    );
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  it('should follow the preferred colour scheme by default', () => {
+    expect(resolveTheme('auto', false)).toBe(LIGHT_THEME);
+    expect(resolveTheme('auto', true)).toBe(DARK_THEME);
+  });
+
+  it('should resolve built-in themes by name and keep custom themes', () => {
+    const custom: ChartTheme = { ...DARK_THEME, palette: ['#f00', '#0f0'] };
+
+    expect(resolveTheme('high-contrast', false)).toBe(HIGH_CONTRAST_THEME);
+    expect(resolveTheme('light', true)).toBe(LIGHT_THEME);
+    expect(resolveTheme(custom, false)).toBe(custom);
+  });
+
+  it('should convert the colours to CSS custom properties', () => {
+    const properties = toCssProperties(DARK_THEME);
+
+    expect(properties['--chart-background']).toBe('#1e1e1e');
+    expect(properties['--chart-accent-text']).toBe('#ffffff');
+    expect(properties['color-scheme']).toBe('dark');
+    expect(Object.keys(properties).length).toBe(9);
+  });
+
+  it('should keep the text of the built-in themes readable', () => {
+    Object.values(THEMES).forEach((theme) => {
+      expect(contrast(theme.text, theme.background)).toBeGreaterThanOrEqual(
+        4.5
+      );
+      expect(
+        contrast(theme.mutedText, theme.background)
+      ).toBeGreaterThanOrEqual(4.5);
+    });
+    expect(
+      contrast(HIGH_CONTRAST_THEME.text, HIGH_CONTRAST_THEME.background)
+    ).toBeGreaterThanOrEqual(7);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Handles the built-in themes of the chart and their CSS custom properties
+ */
+
+import { ChartTheme, ThemeName } from '../shared/types';
+import { regionColourMap } from './colours';
+
+export const LIGHT_THEME: ChartTheme = {
+  palette: regionColourMap,
+  background: '#ffffff',
+  surface: '#f0f0f0',
+  border: '#cccccc',
+  text: '#333333',
+  mutedText: '#666666',
+  accent: '#8a8a8a',
+  accentText: '#ffffff',
+  highlight: '#000000',
+  colorScheme: 'light',
+  regionFillOpacity: 0.2,
+  countryFillOpacity: 0.5,
+  hoverFillOpacity: 0.8,
+  regionStrokeShade: 0.5,
+  countryStrokeShade: 0.8,
+};
+
+export const DARK_THEME: ChartTheme = {
+  palette: {
+    'Northern Europe': '#b59ce0',
+    'Eastern Europe': '#4da6ff',
+    'Southern Europe': '#ffbf40',
+    'Western Europe': '#4cd93f',
+  },
+  background: '#1e1e1e',
+  surface: '#2d2d2d',
+  border: '#555555',
+  text: '#e6e6e6',
+  mutedText: '#a6a6a6',
+  accent: '#6e6e6e',
+  accentText: '#ffffff',
+  highlight: '#ffffff',
+  colorScheme: 'dark',
+  regionFillOpacity: 0.25,
+  countryFillOpacity: 0.55,
+  hoverFillOpacity: 0.85,
+  regionStrokeShade: -0.5,
+  countryStrokeShade: -0.8,
+};
+
+// Black background with white text, and light fills that keep the labels readable
+export const HIGH_CONTRAST_THEME: ChartTheme = {
+  palette: {
+    'Northern Europe': '#d9b3ff',
+    'Eastern Europe': '#66c2ff',
+    'Southern Europe': '#ffd24d',
+    'Western Europe': '#66ff66',
+  },
+  background: '#000000',
+  surface: '#000000',
+  border: '#ffffff',
+  text: '#ffffff',
+  mutedText: '#d0d0d0',
+  accent: '#ffff00',
+  accentText: '#000000',
+  highlight: '#ffff00',
+  colorScheme: 'dark',
+  regionFillOpacity: 0.2,
+  countryFillOpacity: 0.35,
+  hoverFillOpacity: 0.6,
+  regionStrokeShade: -1.5,
+  countryStrokeShade: -1.5,
+};
+
+export const THEMES: Record<ThemeName, ChartTheme> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME,
+};
+
+// CSS custom properties holding each colour of the theme
+const CSS_PROPERTIES: Record<string, keyof ChartTheme> = {
+  '--chart-background': 'background',
+  '--chart-surface': 'surface',
+  '--chart-border': 'border',
+  '--chart-text': 'text',
+  '--chart-muted-text': 'mutedText',
+  '--chart-accent': 'accent',
+  '--chart-accent-text': 'accentText',
+  '--chart-highlight': 'highlight',
+};
+
+/**
+ * Returns the theme to draw the chart with: a built-in theme by name, a custom theme as given, or
+ * for 'auto' the light or dark theme following the colour scheme preferred by the user.
+ *
+ * @param theme - Name of a built-in theme, 'auto' or a custom theme
+ * @param prefersDark - Whether the user prefers a dark colour scheme
+ * @returns The theme
+ */
+export function resolveTheme(
+  theme: ThemeName | 'auto' | ChartTheme,
+  prefersDark: boolean
+): ChartTheme {
+  if (theme === 'auto') {
+    return prefersDark ? DARK_THEME : LIGHT_THEME;
+  }
+  return typeof theme === 'string' ? THEMES[theme] : theme;
+}
+
+/**
+ * Converts the colours of a theme to CSS custom properties, to be set on an element containing the
+ * chart. Its colour scheme is included as the `color-scheme` property, which styles form controls.
+ *
+ * @param theme - The theme
+ * @returns The value of each custom property
+ */
+export function toCssProperties(theme: ChartTheme): Record<string, string> {
+  return {
+    ...Object.fromEntries(
+      Object.entries(CSS_PROPERTIES).map(([property, key]) => [
+        property,
+        String(theme[key]),
+      ])
+    ),
+    'color-scheme': theme.colorScheme,
+  };
+}
@@ -0,0 +1,72 @@
+import { NodeData } from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { getLatestValue, getSnapshot, getYears } from './time-series';
+
+describe('time series', () => {
+  const metrics = new MetricRegistry([
+    { key: 'population', label: 'Population' },
+    { key: 'landAreaKM2', label: 'Land Area' },
+    {
+      key: 'density',
+      label: 'Density',
+      derive: {
+        type: 'ratio',
+        numerator: 'population',
+        denominator: 'landAreaKM2',
+      },
+    },
+  ]);
+
+  const root: NodeData = {
+    name: 'Europe',
+    children: [
+      {
+        name: 'Northern Europe',
+        children: [
+          {
+            name: 'Norway',
+            metrics: { population: 5.5, landAreaKM2: 365, density: 5.5 / 365 },
+            series: { population: { 1990: 4.2, 2000: 4.5, 2020: 5.5 } },
+          },
+          {
+            name: 'Estonia',
+            metrics: { population: 1.3, landAreaKM2: 45, density: 1.3 / 45 },
+            series: { population: { 2000: 1.4, 2020: 1.3 } },
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should list every year in ascending order', () => {
+    expect(getYears(root)).toEqual([1990, 2000, 2020]);
+    expect(getYears({ name: 'Empty' })).toEqual([]);
+  });
+
+  it('should return the value of the latest year', () => {
+    expect(getLatestValue({ 2020: 5.5, 1990: 4.2 })).toBe(5.5);
+    expect(getLatestValue({})).toBeUndefined();
+  });
+
+  it('should take the values of the year and compute the derived metrics again', () => {
+    const norway = getSnapshot(root, 2000, metrics).children![0].children![0];
+
+    expect(norway.metrics).toEqual({
+      population: 4.5,
+      landAreaKM2: 365,
+      density: 4.5 / 365,
+    });
+  });
+
+  it('should leave metrics without a value in the year unset', () => {
+    const estonia = getSnapshot(root, 1990, metrics).children![0].children![1];
+
+    expect(estonia.metrics).toEqual({ landAreaKM2: 45 });
+  });
+
+  it('should not modify the hierarchy', () => {
+    getSnapshot(root, 1990, metrics);
+
+    expect(root.children![0].children![0].metrics!['population']).toBe(5.5);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Handles data over time: the years of a hierarchy and its snapshot at a given year
+ */
+
+import * as d3 from 'd3';
+import { NodeData } from '../shared/types';
+import { computeDerivedMetrics } from './derived-metrics';
+import { MetricRegistry } from './metrics';
+
+/**
+ * Returns every year with values in the hierarchy, in ascending order.
+ *
+ * @param root - Root node of the hierarchy
+ * @returns The years, empty if the hierarchy has no values by year
+ */
+export function getYears(root: NodeData): number[] {
+  const years = new Set<number>();
+  d3.hierarchy(root).each((node) => {
+    Object.values(node.data.series ?? {}).forEach((values) =>
+      Object.keys(values).forEach((year) => years.add(Number(year)))
+    );
+  });
+  return [...years].sort(d3.ascending);
+}
+
+/**
+ * Returns the value of the latest year, or undefined if there are no values.
+ */
+export function getLatestValue(
+  values: Record<number, number>
+): number | undefined {
+  const latest = d3.max(Object.keys(values), Number);
+  return latest === undefined ? undefined : values[latest];
+}
+
+/**
+ * Returns a copy of the hierarchy with the metric values of the given year, for the chart to lay
+ * out as any other hierarchy.
+ *
+ * @remarks
+ * Metrics with values by year take their value of the year, and are left unset in years without a
+ * value, so that the node is not drawn. Metrics without values by year keep their single value.
+ * Derived metrics are computed again from the values of the year.
+ * @param root - Root node of the hierarchy
+ * @param year - The year
+ * @param metrics - The registered metrics, used to compute the derived metrics
+ * @returns The hierarchy at the year
+ */
+export function getSnapshot(
+  root: NodeData,
+  year: number,
+  metrics: MetricRegistry
+): NodeData {
+  const derivedKeys = new Set(
+    metrics
+      .list()
+      .filter((metric) => metric.derive)
+      .map((metric) => metric.key)
+  );
+
+  const toSnapshot = (node: NodeData): NodeData => {
+    const snapshot: NodeData = { ...node };
+
+    if (node.metrics) {
+      snapshot.metrics = Object.fromEntries(
+        Object.entries(node.metrics).filter(([key]) => !derivedKeys.has(key))
+      );
+      Object.entries(node.series ?? {}).forEach(([key, values]) => {
+        if (values[year] === undefined) {
+          delete snapshot.metrics![key];
+        } else {
+          snapshot.metrics![key] = values[year];
+        }
+      });
+    }
+
+    if (node.children) {
+      snapshot.children = node.children.map(toSnapshot);
+    }
+    return snapshot;
+  };
+
+  return computeDerivedMetrics(toSnapshot(root), metrics);
+}
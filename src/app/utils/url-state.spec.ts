@@ -0,0 +1,94 @@
+import { DefaultUrlSerializer, convertToParamMap } from '@angular/router';
+import { EMPTY_FILTER } from './filter-data';
+import {
+  ChartUrlState,
+  fromQueryParams,
+  isSameUrlState,
+  toQueryParams,
+} from './url-state';
+
+describe('URL state', () => {
+  const state: ChartUrlState = {
+    valueKey: 'population',
+    region: 'Northern Europe',
+    country: 'Norway',
+    filter: {
+      ranges: {
+        population: { min: 1000000, max: null },
+        landAreaKM2: { min: 0.5, max: 300000 },
+        density: { min: null, max: null },
+      },
+      hiddenGroups: ['Western Europe', 'Eastern Europe'],
+    },
+  };
+
+  /**
+   * Writes the state to a URL and reads it back, as the router would.
+   */
+  function roundTrip(value: ChartUrlState): ChartUrlState {
+    const serializer = new DefaultUrlSerializer();
+    const tree = serializer.parse('/');
+    tree.queryParams = Object.fromEntries(
+      Object.entries(toQueryParams(value)).filter(([, param]) => param !== null)
+    );
+    return fromQueryParams(
+      serializer.parse(serializer.serialize(tree)).queryParamMap
+    );
+  }
+
+  it('should restore the state written to a URL', () => {
+    const restored = roundTrip(state);
+
+    expect(restored.valueKey).toBe('population');
+    expect(restored.region).toBe('Northern Europe');
+    expect(restored.country).toBe('Norway');
+    expect(restored.filter.hiddenGroups).toEqual([
+      'Western Europe',
+      'Eastern Europe',
+    ]);
+    // Unset ranges are left out of the URL
+    expect(restored.filter.ranges).toEqual({
+      population: { min: 1000000, max: null },
+      landAreaKM2: { min: 0.5, max: 300000 },
+    });
+    expect(isSameUrlState(restored, state)).toBeTrue();
+  });
+
+  it('should remove the parameters of unset state', () => {
+    const params = toQueryParams({
+      valueKey: 'population',
+      region: null,
+      country: null,
+      filter: EMPTY_FILTER,
+    });
+
+    expect(params).toEqual({
+      metric: 'population',
+      region: null,
+      country: null,
+      hide: null,
+      range: null,
+    });
+  });
+
+  it('should leave missing parameters unset', () => {
+    expect(fromQueryParams(convertToParamMap({}))).toEqual({
+      valueKey: null,
+      region: null,
+      country: null,
+      filter: EMPTY_FILTER,
+    });
+  });
+
+  it('should ignore malformed ranges', () => {
+    const restored = fromQueryParams(
+      convertToParamMap({
+        range: ['population', 'area:1..x', ':1..2', 'size:..5'],
+      })
+    );
+
+    expect(restored.filter.ranges).toEqual({
+      size: { min: null, max: 5 },
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Handles serialisation of the chart state to and from URL query parameters, for shareable links
+ */
+
+import { ChartFilter, MetricKey, MetricRange } from '../shared/types';
+
+/**
+ * The chart state kept in the URL: the selected metric, the focused region, the country whose
+ * drawer is open and the filter.
+ */
+export type ChartUrlState = {
+  valueKey: MetricKey | null; // Null when the URL does not name a metric
+  region: string | null;
+  country: string | null;
+  filter: ChartFilter;
+};
+
+/**
+ * Query parameters as read from the URL, e.g. Angular's `ParamMap`.
+ */
+export interface QueryParamReader {
+  getAll(name: string): string[];
+}
+
+// Names of the query parameters holding each part of the state
+const PARAMS = {
+  valueKey: 'metric',
+  region: 'region',
+  country: 'country',
+  hiddenGroups: 'hide',
+  ranges: 'range',
+};
+
+/**
+ * Converts the chart state to query parameters. Parts of the state that are not set are null, so
+ * that they are removed from the URL when merged with its existing parameters.
+ *
+ * @remarks
+ * Metric ranges are written as `key:min..max`, with either bound left empty when unset (e.g.
+ * `range=population:1000000..`). Hidden groups and ranges repeat their parameter once per value.
+ * @param state - The chart state
+ * @returns The query parameters
+ */
+export function toQueryParams(
+  state: ChartUrlState
+): Record<string, string | string[] | null> {
+  const ranges = Object.entries(state.filter.ranges)
+    .filter(([, range]) => range.min !== null || range.max !== null)
+    .map(([key, range]) => `${key}:${range.min ?? ''}..${range.max ?? ''}`);
+
+  return {
+    [PARAMS.valueKey]: state.valueKey,
+    [PARAMS.region]: state.region,
+    [PARAMS.country]: state.country,
+    [PARAMS.hiddenGroups]:
+      state.filter.hiddenGroups.length > 0 ? state.filter.hiddenGroups : null,
+    [PARAMS.ranges]: ranges.length > 0 ? ranges : null,
+  };
+}
+
+/**
+ * Reads the chart state from query parameters. Missing parameters leave their part of the state
+ * unset, and malformed ranges are ignored.
+ *
+ * @param params - The query parameters of the URL
+ * @returns The chart state
+ */
+export function fromQueryParams(params: QueryParamReader): ChartUrlState {
+  const first = (name: string) => params.getAll(name)[0] || null;
+
+  const ranges: Record<MetricKey, MetricRange> = {};
+  params.getAll(PARAMS.ranges).forEach((value) => {
+    const parsed = parseRange(value);
+    if (parsed) {
+      ranges[parsed.key] = parsed.range;
+    }
+  });
+
+  return {
+    valueKey: first(PARAMS.valueKey),
+    region: first(PARAMS.region),
+    country: first(PARAMS.country),
+    filter: {
+      ranges,
+      hiddenGroups: params.getAll(PARAMS.hiddenGroups).filter(Boolean),
+    },
+  };
+}
+
+/**
+ * Checks whether two chart states are the same, e.g. to skip applying a URL the chart already
+ * shows.
+ */
+export function isSameUrlState(a: ChartUrlState, b: ChartUrlState): boolean {
+  const params = [toQueryParams(a), toQueryParams(b)];
+  return JSON.stringify(params[0]) === JSON.stringify(params[1]);
+}
+
+/**
+ * Parses a range written as `key:min..max`, returning null if it is malformed.
+ */
+function parseRange(
+  value: string
+): { key: MetricKey; range: MetricRange } | null {
+  const separator = value.lastIndexOf(':');
+  const bounds = value.slice(separator + 1).split('..');
+  if (separator <= 0 || bounds.length !== 2) return null;
+
+  const [min, max] = bounds.map((bound) =>
+    bound.trim() === '' ? null : Number(bound)
+  );
+  if (Number.isNaN(min) || Number.isNaN(max)) return null;
+
+  return { key: value.slice(0, separator), range: { min, max } };
+}
@@ -0,0 +1,119 @@
+import { RecordIssue } from '../shared/types';
+import { MetricRegistry } from './metrics';
+import { EUROPE_MAPPING, transformData } from './process-data';
+import { validateRecord } from './validate-data';
+
+describe('validateRecord', () => {
+  const metrics = new MetricRegistry();
+
+  const validate = (record: Record<string, unknown>) =>
+    validateRecord(record, EUROPE_MAPPING, metrics, 'Record 1', true);
+
+  it('should accept a complete record', () => {
+    expect(
+      validate({
+        country: 'Malta',
+        population: 540000,
+        land_area_km2: 316,
+        wikipedia: 'https://en.wikipedia.org/wiki/Malta',
+        flag: 'https://flagcdn.com/w320/mt.png',
+        latitude: 35.9,
+        longitude: 14.4,
+      })
+    ).toEqual([]);
+  });
+
+  it('should report a missing name as an error', () => {
+    const issues = validate({ population: 1, land_area_km2: 1 });
+
+    expect(issues.length).toBe(1);
+    expect(issues[0].record).toBe('Record 1');
+    expect(issues[0].severity).toBe('error');
+  });
+
+  it('should report negative and non-finite values as errors', () => {
+    expect(
+      validate({ country: 'A', population: -5, land_area_km2: 1 })[0].severity
+    ).toBe('error');
+    expect(
+      validate({ country: 'B', population: 'many', land_area_km2: 1 })[0]
+        .severity
+    ).toBe('error');
+  });
+
+  it('should report invalid links as warnings', () => {
+    const issues = validate({
+      country: 'C',
+      population: 1,
+      land_area_km2: 1,
+      flag: 'not a url',
+    });
+
+    expect(issues.map((issue) => [issue.field, issue.severity])).toEqual([
+      ['flag', 'warning'],
+    ]);
+  });
+
+  it('should accept values by year and report invalid ones', () => {
+    expect(
+      validate({
+        country: 'E',
+        population: { 1990: 1, 2000: 2 },
+        land_area_km2: 1,
+      })
+    ).toEqual([]);
+    expect(
+      validate({
+        country: 'F',
+        population: { 1990: 1, 2000: -2 },
+        land_area_km2: 1,
+      })[0].severity
+    ).toBe('warning');
+    expect(
+      validate({
+        country: 'G',
+        population: { early: 1 },
+        land_area_km2: 1,
+      })[0].severity
+    ).toBe('error');
+  });
+
+  it('should report coordinates out of range as warnings', () => {
+    const issues = validate({
+      country: 'D',
+      population: 1,
+      land_area_km2: 1,
+      latitude: 95,
+      longitude: 'east',
+    });
+
+    expect(issues.map((issue) => [issue.field, issue.severity])).toEqual([
+      ['latitude', 'warning'],
+      ['longitude', 'warning'],
+    ]);
+  });
+});
+
+describe('transformData with invalid records', () => {
+  it('should skip invalid records and still transform the valid ones', () => {
+    const issues: RecordIssue[] = [];
+    const root = transformData(
+      {
+        Europe: {
+          'Southern Europe': [
+            { country: 'Malta', population: 540000, land_area_km2: 316 },
+            { country: 'Nowhere', population: -1, land_area_km2: 10 },
+          ],
+        },
+      },
+      new MetricRegistry(),
+      EUROPE_MAPPING,
+      issues
+    );
+
+    expect(root.children?.[0].children?.map((country) => country.name)).toEqual(
+      ['Malta']
+    );
+    expect(issues.map((issue) => issue.record)).toEqual(['Nowhere']);
+  });
+});
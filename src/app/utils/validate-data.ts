@@ -0,0 +1,173 @@
+/**
+ * Handles validation of individual records in a raw dataset
+ */
+
+import { HierarchyMapping, RecordIssue } from '../shared/types';
+import { MetricRegistry } from './metrics';
+
+/**
+ * Checks a single raw record: it needs a name, its values must be finite non-negative numbers (or
+ * such numbers by year), its links must be valid URLs and its coordinates must be within range.
+ *
+ * @param record - The raw record
+ * @param mapping - Which fields hold the name, values and links of the record
+ * @param metrics - The registered metrics
+ * @param location - Describes where the record is, used when it has no name
+ * @param isLeaf - Whether the record is a leaf, which needs values as it cannot sum its children
+ * @returns The issues found, empty if the record is valid. Warnings are left out for records with
+ * errors, as those records are skipped anyway.
+ */
+export function validateRecord(
+  record: Record<string, unknown>,
+  mapping: HierarchyMapping,
+  metrics: MetricRegistry,
+  location: string,
+  isLeaf: boolean
+): RecordIssue[] {
+  const issues: RecordIssue[] = [];
+  const name = record[mapping.name];
+  const hasName = typeof name === 'string' && name.trim() !== '';
+  const label = hasName ? name : location;
+
+  const addIssue = (
+    field: string,
+    message: string,
+    severity: RecordIssue['severity']
+  ) => issues.push({ record: label, field, message, severity });
+
+  if (!hasName) {
+    addIssue(mapping.name, `Missing name in "${mapping.name}"`, 'error');
+  }
+
+  metrics.list().forEach((metric) => {
+    if (metric.derive) return;
+
+    const field = mapping.values?.[metric.key] ?? metric.field ?? metric.key;
+    const value = record[field];
+
+    if (value === undefined || value === null || value === '') {
+      if (isLeaf) {
+        addIssue(field, `Missing ${metric.label.toLowerCase()}`, 'warning');
+      }
+      return;
+    }
+
+    if (typeof value === 'object') {
+      const yearValues = toYearValues(value);
+      if (!yearValues) {
+        addIssue(
+          field,
+          `${metric.label} is neither a number nor values by year`,
+          'error'
+        );
+      } else if (Object.keys(yearValues).length < Object.keys(value).length) {
+        addIssue(
+          field,
+          `${metric.label} has invalid values in some years, ignored`,
+          'warning'
+        );
+      }
+      return;
+    }
+
+    const number = toNumber(value);
+    if (number === undefined || !Number.isFinite(number)) {
+      addIssue(field, `${metric.label} is not a finite number`, 'error');
+    } else if (number < 0) {
+      addIssue(field, `${metric.label} is negative`, 'error');
+    }
+  });
+
+  [mapping.wikipedia, mapping.flag].forEach((field) => {
+    if (field && record[field] !== undefined && !isValidUrl(record[field])) {
+      addIssue(field, `Invalid URL in "${field}", ignored`, 'warning');
+    }
+  });
+
+  [mapping.lat, mapping.long].forEach((field) => {
+    const value = field && record[field];
+    if (
+      field &&
+      value !== undefined &&
+      value !== null &&
+      value !== '' &&
+      toCoordinate(value, field === mapping.lat ? 90 : 180) === undefined
+    ) {
+      addIssue(field, `Invalid coordinate in "${field}", ignored`, 'warning');
+    }
+  });
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return errors.length > 0 ? errors : issues;
+}
+
+/**
+ * Converts a raw value to a number, or undefined if it is not numeric. Numeric strings, as
+ * produced by CSV parsing, are converted to numbers.
+ */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a raw object of a metric's values by year (e.g. `{ "1990": 5.1, "2000": 5.3 }`) to
+ * numbers by year, or undefined if it is not such an object. Years whose values are not finite
+ * non-negative numbers are left out.
+ */
+export function toYearValues(
+  value: unknown
+): Record<number, number> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0 || !entries.every(([year]) => /^\d+$/.test(year))) {
+    return undefined;
+  }
+
+  const values: Record<number, number> = {};
+  entries.forEach(([year, raw]) => {
+    const number = toNumber(raw);
+    if (number !== undefined && Number.isFinite(number) && number >= 0) {
+      values[Number(year)] = number;
+    }
+  });
+  return values;
+}
+
+/**
+ * Converts a raw value to a coordinate in degrees, or undefined if it is not a number within
+ * ±limit (90 for latitudes, 180 for longitudes).
+ */
+export function toCoordinate(
+  value: unknown,
+  limit: number
+): number | undefined {
+  const number = toNumber(value);
+  return number !== undefined && Math.abs(number) <= limit ? number : undefined;
+}
+
+/**
+ * Returns true if the value is an absolute http(s) URL.
+ */
+export function isValidUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats an issue for display, e.g. "Malta: Population is negative".
+ */
+export function formatIssue(issue: RecordIssue): string {
+  return `${issue.record}: ${issue.message}`;
+}